@@ -0,0 +1,70 @@
+const STORAGE_KEY = 'neon-runner.accessibility';
+
+export type ColorPalette = 'default' | 'redGreen' | 'tritan';
+
+// Colours the obstacles and coins are told apart by
+export interface ObstaclePalette {
+    jump: number;
+    duck: number;
+    jumpGlow: number; // emissive of the hazard materials
+    duckGlow: number;
+    solid: number;
+    coin: number;
+    coinCore: number;
+}
+
+// Colour-blind palettes are drawn from the Okabe-Ito set, which stays distinct under the common deficiencies
+export const PALETTES: Record<ColorPalette, { label: string; colors: ObstaclePalette }> = {
+    default: { label: 'DEFAULT', colors: { jump: 0xff3300, duck: 0xff3300, jumpGlow: 0xff0000, duckGlow: 0xff0000, solid: 0xff0000, coin: 0xffd700, coinCore: 0xffaa00 } },
+    redGreen: { label: 'PROTAN / DEUTAN', colors: { jump: 0xe69f00, duck: 0x0072b2, jumpGlow: 0xe69f00, duckGlow: 0x0072b2, solid: 0xcc79a7, coin: 0xf0e442, coinCore: 0xe69f00 } },
+    tritan: { label: 'TRITAN', colors: { jump: 0xff3b30, duck: 0x009e73, jumpGlow: 0xff3b30, duckGlow: 0x009e73, solid: 0xcc79a7, coin: 0xffffff, coinCore: 0xff9999 } }
+};
+
+export const PALETTE_IDS = Object.keys(PALETTES) as ColorPalette[];
+
+export const SPEED_SCALES = [1, 0.85, 0.7, 0.55];
+
+export interface AccessibilitySettings {
+    palette: ColorPalette;
+    shapeMarkers: boolean; // icon above each obstacle saying what to do
+    reducedMotion: boolean; // no camera follow, lean, glitter, particles, lightning or UI animation
+    highContrast: boolean; // solid backing behind HUD text
+    speedScale: number; // game time per real second; below 1 ranks runs as assisted
+    announcements: boolean; // score milestones and game over for screen readers
+}
+
+export const DEFAULT_ACCESSIBILITY: AccessibilitySettings = {
+    palette: 'default',
+    shapeMarkers: false,
+    reducedMotion: false,
+    highContrast: false,
+    speedScale: 1,
+    announcements: true
+};
+
+export function loadAccessibility(): AccessibilitySettings {
+    try {
+        const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+        if (!raw || typeof raw !== 'object') return { ...DEFAULT_ACCESSIBILITY };
+        const flag = (key: 'shapeMarkers' | 'reducedMotion' | 'highContrast' | 'announcements') =>
+            typeof raw[key] === 'boolean' ? raw[key] : DEFAULT_ACCESSIBILITY[key];
+        return {
+            palette: PALETTE_IDS.includes(raw.palette) ? raw.palette : DEFAULT_ACCESSIBILITY.palette,
+            shapeMarkers: flag('shapeMarkers'),
+            reducedMotion: flag('reducedMotion'),
+            highContrast: flag('highContrast'),
+            speedScale: SPEED_SCALES.includes(raw.speedScale) ? raw.speedScale : DEFAULT_ACCESSIBILITY.speedScale,
+            announcements: flag('announcements')
+        };
+    } catch {
+        return { ...DEFAULT_ACCESSIBILITY };
+    }
+}
+
+export function saveAccessibility(settings: AccessibilitySettings) {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch {
+        // ignore
+    }
+}
@@ -1,25 +1,114 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { GameEngine } from './GameEngine';
-import { GameState, AIState } from './types';
+import { GameState, AIState, AIPlan, AutopilotId, GameConfig, HUDState, RunStats, PowerUpType, RenderStats, CourseResult, CourseRunMode } from './types';
+import { dailySeed, formatSeed, parseSeed } from './Random';
+import { ReplayFile, parseReplay, downloadReplay } from './Replay';
+import { GhostTrack, ghostFromReplay, loadBestGhost, saveIfBestGhost } from './Ghost';
+import { Leaderboard, loadLeaderboard, qualifies, isNewBest, addEntry, loadLastName } from './Leaderboard';
+import LeaderboardView from './components/LeaderboardView';
+import DebugPanel from './components/DebugPanel';
+import OptionPicker from './components/OptionPicker';
+import ChunkEditor from './components/ChunkEditor';
+import AudioSettingsPanel from './components/AudioSettings';
+import ControlsPanel from './components/ControlsPanel';
+import AccessibilityPanel from './components/AccessibilityPanel';
+import { ChunkDef } from './Chunks';
+import { resolveConfig } from './Simulation';
+import { POWERUPS } from './PowerUps';
+import { QualitySetting, QUALITY_SETTINGS, loadQualitySetting, saveQualitySetting } from './Quality';
+import { Difficulty, DIFFICULTIES, DIFFICULTY_IDS, loadDifficulty, saveDifficulty } from './Difficulty';
+import { AudioEngine, AudioSettings, loadAudioSettings, saveAudioSettings } from './Audio';
+import { AccessibilitySettings, loadAccessibility, saveAccessibility } from './Accessibility';
+import { AUTOPILOTS, AUTOPILOT_IDS, DEFAULT_AUTOPILOT } from './Autopilot';
+import { parsePolicy, setActivePolicy } from './PolicyAutopilot';
+import { InputAction, InputHandler, InputManager, KeyBindings, MenuNav, bindingHint, loadBindings, navigateFocus, saveBindings } from './Input';
+
+const QUALITY_LABELS: Record<QualitySetting, string> = { low: 'LOW', medium: 'MED', high: 'HIGH', auto: 'AUTO' };
+const DIFFICULTY_LABELS = Object.fromEntries(DIFFICULTY_IDS.map(d => [d, DIFFICULTIES[d].label])) as Record<Difficulty, string>;
+const BOT_LABELS = Object.fromEntries(AUTOPILOT_IDS.map(id => [id, AUTOPILOTS[id].label])) as Record<AutopilotId, string>;
+
+// First few moves of a plan, without the idle tail
+const formatPlan = (plan: AIPlan) => {
+    const moves = [...plan.moves];
+    while (moves.length > 1 && moves[moves.length - 1] === 'RUN') moves.pop();
+    return moves.slice(0, 4).join(' › ') + (moves.length > 4 ? ' …' : '');
+};
+const DISTRICT_BANNER_TIME = 3; // seconds
+const SCORE_MILESTONE = 5000; // announced to screen readers each time the score passes a multiple
+const COURSE_MODE_LABELS: Record<CourseRunMode, string> = { preview: 'PREVIEW', play: 'TEST RUN', autopilot: 'AUTOPILOT TEST' };
+
+interface CourseRun {
+    course: ChunkDef;
+    mode: CourseRunMode;
+    speed: number;
+}
 
 export default function App() {
     const containerRef = useRef<HTMLDivElement>(null);
+    const replayInputRef = useRef<HTMLInputElement>(null);
+    const policyInputRef = useRef<HTMLInputElement>(null);
+    const ghostInputRef = useRef<HTMLInputElement>(null);
     const gameRef = useRef<GameEngine | null>(null);
+    const audioRef = useRef<AudioEngine | null>(null);
+    const inputRef = useRef<InputManager | null>(null);
+    const inputHandlerRef = useRef<InputHandler | null>(null);
     
     const [gameState, setGameState] = useState<GameState>(GameState.MENU);
     const [score, setScore] = useState(0);
     const [finalScore, setFinalScore] = useState(0);
+    const [runSeed, setRunSeed] = useState(0);
+    const [isDailyRun, setIsDailyRun] = useState(false);
+    const [seedInput, setSeedInput] = useState('');
+    const [isReplay, setIsReplay] = useState(false);
+    const [lastReplay, setLastReplay] = useState<ReplayFile | null>(null);
+    const [replayError, setReplayError] = useState<string | null>(null);
+    const [policyMessage, setPolicyMessage] = useState<{ text: string; error: boolean } | null>(null);
+    const [hud, setHud] = useState<HUDState>({ distance: 0, district: null, ghost: null, powerUps: [], combo: { level: 0, decay: 0 }, popups: [] });
+    const [ghostsSaved, setGhostsSaved] = useState(0); // bumped when a run becomes a best ghost
+    const [ghostEnabled, setGhostEnabled] = useState(true);
+    const [countdown, setCountdown] = useState<number | null>(null);
+    const [activeReplay, setActiveReplay] = useState<ReplayFile | null>(null);
+    const [race, setRace] = useState<ReplayFile | 'best' | null>(null); // ghost being raced: an imported run or the personal best
+
+    // Run results / leaderboard
+    const [runStats, setRunStats] = useState<RunStats | null>(null);
+    const [newBest, setNewBest] = useState(false);
+    const [canSubmit, setCanSubmit] = useState(false);
+    const [savedRank, setSavedRank] = useState(0);
+    const [playerName, setPlayerName] = useState(() => loadLastName());
+    const [leaderboard, setLeaderboard] = useState<Leaderboard | null>(null);
     const [autoPilot, setAutoPilot] = useState(false);
+    const [quality, setQuality] = useState<QualitySetting>(() => loadQualitySetting());
+    const [difficulty, setDifficulty] = useState<Difficulty>(() => loadDifficulty());
+    const [renderStats, setRenderStats] = useState<RenderStats | null>(null);
+    const [audioSettings, setAudioSettings] = useState<AudioSettings>(() => loadAudioSettings());
+    const [bindings, setBindings] = useState<KeyBindings>(() => loadBindings());
+    const [controlsOpen, setControlsOpen] = useState(false);
+    const [gamepadConnected, setGamepadConnected] = useState(false);
+    const [accessibility, setAccessibility] = useState<AccessibilitySettings>(() => loadAccessibility());
+    const [accessibilityOpen, setAccessibilityOpen] = useState(false);
+    const [announcement, setAnnouncement] = useState('');
+    const milestoneRef = useRef(0);
+
+    // Track editor stays mounted while its courses run so edits survive
+    const [editorOpen, setEditorOpen] = useState(false);
+    const [courseRun, setCourseRun] = useState<CourseRun | null>(null);
+    const [courseResult, setCourseResult] = useState<CourseResult | null>(null);
+    const editorConfig = useMemo(() => resolveConfig(DIFFICULTIES[difficulty].config), [difficulty]);
+    const bestGhost = useMemo(() => loadBestGhost(resolveConfig(DIFFICULTIES[difficulty].config)), [difficulty, ghostsSaved]);
     
     // AI Debug State
     const [aiState, setAiState] = useState<AIState>({
         enabled: false,
+        bot: DEFAULT_AUTOPILOT,
         currentLane: 0,
         targetLane: 0,
         action: 'SCANNING',
         confidence: 0,
         nearestThreatDist: 0,
-        laneScores: [0,0,0]
+        visionRange: 0,
+        laneScores: [0,0,0],
+        status: "CRUISING"
     });
 
     useEffect(() => {
@@ -27,36 +116,145 @@ export default function App() {
 
         const game = new GameEngine(
             containerRef.current,
-            (s) => setScore(s),
             (s) => {
+                setScore(s);
+                // Replays drive the autopilot flag themselves, so mirror it rather than assume
+                if (gameRef.current) setAutoPilot(gameRef.current.autoPilotEnabled);
+            },
+            (s) => {
+                const courseMode = gameRef.current?.courseRunMode;
+                if (gameRef.current && courseMode) {
+                    // Editor runs go straight back to the editor: no ghost, replay or leaderboard
+                    setCourseResult({ mode: courseMode, cleared: gameRef.current.courseCleared, distance: gameRef.current.getRunStats().distance });
+                    setGameState(GameState.EDITOR);
+                    return;
+                }
                 setFinalScore(s);
+                if (gameRef.current) {
+                    const stats = gameRef.current.getRunStats();
+                    const live = !gameRef.current.isReplay;
+                    setRunStats(stats);
+                    setNewBest(live && isNewBest(stats));
+                    setCanSubmit(live && qualifies(stats));
+                    setSavedRank(0);
+                    setLastReplay(gameRef.current.getReplay());
+                    // Only unassisted, full-speed runs can become the personal-best ghost
+                    if (live && !stats.autopilotUsed && !stats.slowed && saveIfBestGhost(gameRef.current.getGhostRecording())) {
+                        setGhostsSaved(n => n + 1);
+                    }
+                }
                 setGameState(GameState.GAME_OVER);
             },
-            (state) => setAiState(state) // Update AI UI
+            (state) => setAiState(state), // Update AI UI
+            (h) => setHud(h),
+            quality
         );
         gameRef.current = game;
+        game.setAccessibility(accessibility);
+
+        // Audio only listens to engine events; the context can't start until the player interacts
+        const audio = new AudioEngine(audioSettings);
+        audioRef.current = audio;
+        const unsubscribe = game.subscribe(audio.handle);
+        const unlock = () => audio.unlock();
+        window.addEventListener('pointerdown', unlock, true);
+        window.addEventListener('keydown', unlock, true);
+
+        return () => {
+            window.removeEventListener('pointerdown', unlock, true);
+            window.removeEventListener('keydown', unlock, true);
+            unsubscribe();
+            audio.dispose();
+            game.cleanup();
+        };
+    }, []);
 
-        return () => game.cleanup();
+    // Input goes through the action map; the handler is swapped every render so it always sees current state
+    useEffect(() => {
+        const input = new InputManager(bindings, {
+            action: (action, repeat) => inputHandlerRef.current?.action(action, repeat) ?? false,
+            navigate: (nav) => inputHandlerRef.current?.navigate(nav)
+        });
+        inputRef.current = input;
+
+        const handlePads = () => setGamepadConnected(Array.from(navigator.getGamepads?.() ?? []).some(p => p?.connected));
+        window.addEventListener('gamepadconnected', handlePads);
+        window.addEventListener('gamepaddisconnected', handlePads);
+        return () => {
+            window.removeEventListener('gamepadconnected', handlePads);
+            window.removeEventListener('gamepaddisconnected', handlePads);
+            input.dispose();
+        };
     }, []);
 
     useEffect(() => {
-        // Keyboard listeners
         const handleKey = (e: KeyboardEvent) => {
-            if (!gameRef.current || gameState !== GameState.PLAYING) return;
-            
-            // Manual overrides work even in Auto Pilot (Hybrid/Smart control)
-            switch(e.key) {
-                case 'ArrowLeft': case 'a': gameRef.current.moveLeft(); break;
-                case 'ArrowRight': case 'd': gameRef.current.moveRight(); break;
-                case 'ArrowUp': case 'w': case ' ': gameRef.current.jump(); break;
-                case 'ArrowDown': case 's': gameRef.current.roll(); break;
+            if (e.key === 'F3' && gameRef.current) {
+                e.preventDefault();
+                setRenderStats(s => s ? null : gameRef.current!.getRenderStats());
             }
         };
-
         window.addEventListener('keydown', handleKey);
         return () => window.removeEventListener('keydown', handleKey);
+    }, []);
+
+    // Refresh the debug overlay while it's open
+    const debugOpen = renderStats !== null;
+    useEffect(() => {
+        if (!debugOpen) return;
+        const timer = window.setInterval(() => {
+            if (gameRef.current) setRenderStats(gameRef.current.getRenderStats());
+        }, 500);
+        return () => window.clearInterval(timer);
+    }, [debugOpen]);
+
+    // Auto-pause when the tab is hidden or the window loses focus
+    useEffect(() => {
+        const handleFocusLoss = () => {
+            if (document.visibilityState === 'hidden' || !document.hasFocus()) {
+                if (gameState === GameState.PLAYING) pauseGame();
+                else if (gameState === GameState.PAUSED) setCountdown(null);
+            }
+        };
+
+        document.addEventListener('visibilitychange', handleFocusLoss);
+        window.addEventListener('blur', handleFocusLoss);
+        return () => {
+            document.removeEventListener('visibilitychange', handleFocusLoss);
+            window.removeEventListener('blur', handleFocusLoss);
+        };
     }, [gameState]);
 
+    // 3-2-1 before the run actually resumes
+    useEffect(() => {
+        if (countdown === null) return;
+        const timer = window.setTimeout(() => {
+            if (countdown > 1) {
+                setCountdown(countdown - 1);
+            } else {
+                setCountdown(null);
+                gameRef.current?.resume();
+                setGameState(GameState.PLAYING);
+            }
+        }, 1000);
+        return () => window.clearTimeout(timer);
+    }, [countdown]);
+
+    // Screen reader announcements: score milestones during a run, then how it ended
+    useEffect(() => {
+        const milestone = Math.floor(score / SCORE_MILESTONE);
+        if (milestone > milestoneRef.current && accessibility.announcements) setAnnouncement(`Score ${milestone * SCORE_MILESTONE}`);
+        milestoneRef.current = milestone;
+    }, [score]);
+
+    useEffect(() => {
+        if (!accessibility.announcements) return;
+        if (gameState === GameState.GAME_OVER) setAnnouncement(`Crashed. Final score ${finalScore}.`);
+        else if (gameState === GameState.EDITOR && courseResult) {
+            setAnnouncement(courseResult.cleared ? 'Course cleared.' : `Course failed at ${Math.floor(courseResult.distance)} metres.`);
+        }
+    }, [gameState, courseResult]);
+
     // Touch controls
     const [touchStart, setTouchStart] = useState({ x: 0, y: 0 });
 
@@ -85,13 +283,187 @@ export default function App() {
         }
     };
 
-    const startGame = () => {
+    const changeQuality = (setting: QualitySetting) => {
+        setQuality(setting);
+        saveQualitySetting(setting);
+        gameRef.current?.setQuality(setting);
+    };
+
+    const changeAudio = (settings: AudioSettings) => {
+        setAudioSettings(settings);
+        saveAudioSettings(settings);
+        audioRef.current?.setSettings(settings);
+    };
+
+    const changeAccessibility = (settings: AccessibilitySettings) => {
+        setAccessibility(settings);
+        saveAccessibility(settings);
+        gameRef.current?.setAccessibility(settings);
+    };
+
+    const changeBindings = (next: KeyBindings) => {
+        setBindings(next);
+        saveBindings(next);
+        inputRef.current?.setBindings(next);
+    };
+
+    const changeDifficulty = (d: Difficulty) => {
+        setDifficulty(d);
+        saveDifficulty(d);
+    };
+
+    const startGame = (seed?: number, daily: boolean = false, ghost: GhostTrack | null = null,
+        config: Partial<GameConfig> = DIFFICULTIES[difficulty].config) => {
+        if (gameRef.current) {
+            gameRef.current.setGhost(ghost);
+            gameRef.current.start(seed, config);
+            setRunSeed(gameRef.current.getSeed());
+            setIsDailyRun(daily);
+            setIsReplay(false);
+            setActiveReplay(null);
+            setRace(null);
+            setCourseRun(null);
+            setReplayError(null);
+            setCountdown(null);
+            setGameState(GameState.PLAYING);
+        }
+    };
+
+    // Ghosts race on their own seed and config, so both run the same track
+    const raceGhost = (replay: ReplayFile) => {
+        if (replay.course) throw new Error('Editor course runs cannot be raced as ghosts');
+        startGame(replay.seed, false, ghostFromReplay(replay), replay.config);
+        setRace(replay);
+    };
+
+    const raceBestGhost = (ghost: GhostTrack) => {
+        startGame(ghost.seed, false, ghost, ghost.config);
+        setRace('best');
+    };
+
+    const newRun = () => {
+        if (ghostEnabled && bestGhost) raceBestGhost(bestGhost);
+        else startGame();
+    };
+
+    const pauseGame = () => {
+        if (!gameRef.current || gameState !== GameState.PLAYING) return;
+        gameRef.current.pause();
+        setCountdown(null);
+        setGameState(GameState.PAUSED);
+    };
+
+    const resumeGame = () => {
+        if (gameState !== GameState.PAUSED || countdown !== null) return;
+        setCountdown(3);
+    };
+
+    const restartGame = () => {
+        if (courseRun) runCourse(courseRun.course, courseRun.mode, courseRun.speed);
+        else if (activeReplay) watchReplay(activeReplay);
+        else if (race === 'best' && bestGhost) raceBestGhost(bestGhost);
+        else if (race && race !== 'best') raceGhost(race);
+        else startGame(runSeed, isDailyRun);
+    };
+
+    const submitScore = () => {
+        if (!runStats || !canSubmit) return;
+        setSavedRank(addEntry(runStats, playerName));
+        setCanSubmit(false);
+    };
+
+    const quitToMenu = () => {
+        gameRef.current?.stop();
+        setCountdown(null);
+        setGameState(editorOpen ? GameState.EDITOR : GameState.MENU);
+    };
+
+    const openEditor = () => {
+        setEditorOpen(true);
+        setCourseResult(null);
+        setGameState(GameState.EDITOR);
+    };
+
+    const closeEditor = () => {
+        setEditorOpen(false);
+        setCourseRun(null);
+        setGameState(GameState.MENU);
+    };
+
+    const runCourse = (course: ChunkDef, mode: CourseRunMode, speed: number) => {
+        if (!gameRef.current) return;
+        // The editor's run buttons would otherwise keep focus and catch Space while hidden
+        (document.activeElement as HTMLElement | null)?.blur();
+        gameRef.current.setGhost(null);
+        gameRef.current.startCourse(course, mode, speed, DIFFICULTIES[difficulty].config);
+        setIsReplay(false);
+        setActiveReplay(null);
+        setRace(null);
+        setCourseRun({ course, mode, speed });
+        setCountdown(null);
+        setGameState(GameState.PLAYING);
+    };
+
+    const watchReplay = (replay: ReplayFile) => {
         if (gameRef.current) {
-            gameRef.current.start();
+            gameRef.current.setGhost(null);
+            gameRef.current.startReplay(replay);
+            setRunSeed(replay.seed);
+            setIsDailyRun(false);
+            setIsReplay(true);
+            setActiveReplay(replay);
+            setRace(null);
+            setCourseRun(null);
+            setReplayError(null);
+            setCountdown(null);
             setGameState(GameState.PLAYING);
         }
     };
 
+    const importReplay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            watchReplay(parseReplay(await file.text()));
+        } catch (err) {
+            setReplayError(err instanceof Error ? err.message : 'Could not read replay');
+        }
+    };
+
+    const importGhost = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            raceGhost(parseReplay(await file.text()));
+        } catch (err) {
+            setReplayError(err instanceof Error ? err.message : 'Could not read replay');
+        }
+    };
+
+    // Trained policies play as the POLICY bot
+    const importPolicy = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const policy = parsePolicy(await file.text());
+            setActivePolicy(policy);
+            setPolicyMessage({ text: `POLICY "${policy.name ?? file.name}" LOADED - PICK POLICY IN THE AI PANEL`, error: false });
+        } catch (err) {
+            setPolicyMessage({ text: err instanceof Error ? err.message : 'Could not read policy', error: true });
+        }
+    };
+
+    const formatGhostDelta = () => {
+        const g = hud.ghost!;
+        if (g.finished && g.delta > 0) return `+${g.delta.toFixed(0)}m PAST GHOST`;
+        if (g.delta >= 0.5) return `+${g.delta.toFixed(1)}m AHEAD`;
+        if (g.delta <= -0.5) return `${g.delta.toFixed(1)}m BEHIND`;
+        return 'NECK AND NECK';
+    };
+
     const toggleAutoPilot = () => {
         const newVal = !autoPilot;
         setAutoPilot(newVal);
@@ -100,6 +472,55 @@ export default function App() {
         }
     };
 
+    const changeBot = (id: AutopilotId) => {
+        gameRef.current?.setAutopilot(id);
+        setAiState(s => ({ ...s, bot: id }));
+    };
+
+    const handleAction = (action: InputAction): boolean => {
+        const game = gameRef.current;
+        if (!game) return false;
+        if (action === 'mute') {
+            changeAudio({ ...audioSettings, muted: !audioSettings.muted });
+            return true;
+        }
+        if (action === 'pause') {
+            // Editor runs have nothing to pause for; go straight back to the editor
+            if (courseRun && gameState === GameState.PLAYING) quitToMenu();
+            else if (gameState === GameState.PLAYING) pauseGame();
+            else if (gameState === GameState.PAUSED) resumeGame();
+            else return false;
+            return true;
+        }
+        if (gameState !== GameState.PLAYING) return false;
+
+        // Manual overrides work even in Auto Pilot (Hybrid/Smart control)
+        switch (action) {
+            case 'left': game.moveLeft(); break;
+            case 'right': game.moveRight(); break;
+            case 'jump': game.jump(); break;
+            case 'roll': game.roll(); break;
+            case 'autopilot': if (!isReplay && !courseRun) toggleAutoPilot(); break;
+        }
+        return true;
+    };
+
+    // Gamepad menu navigation; keyboard users already have Tab
+    const handleNavigate = (nav: MenuNav) => {
+        if (gameState === GameState.PLAYING || countdown !== null) return;
+        if (nav !== 'back') {
+            navigateFocus(nav);
+            return;
+        }
+        if (controlsOpen) setControlsOpen(false);
+        else if (accessibilityOpen) setAccessibilityOpen(false);
+        else if (leaderboard) setLeaderboard(null);
+        else if (gameState === GameState.PAUSED) resumeGame();
+        else if (gameState === GameState.GAME_OVER) quitToMenu();
+    };
+
+    inputHandlerRef.current = { action: handleAction, navigate: handleNavigate };
+
     // Helper for AI Lane Visualizer
     const getLaneColor = (laneIdx: number) => {
         if (laneIdx === aiState.targetLane) return 'bg-cyan-400 shadow-[0_0_10px_#0ff]';
@@ -107,19 +528,9 @@ export default function App() {
         return 'bg-gray-800/50';
     };
     
-    // AI Reasoning Text
-    const getAIReason = () => {
-        if (aiState.confidence === 0) return "PANIC: EVASIVE MANEUVERS";
-        if (aiState.action === 'DODGE') return "AVOIDING SOLID OBSTACLE";
-        if (aiState.targetLane !== aiState.currentLane) return "OPTIMIZING PATH (COINS)";
-        if (aiState.action === 'JUMP') return "DETECTED BARRIER - JUMPING";
-        if (aiState.action === 'DUCK') return "DETECTED OVERHEAD - ROLLING";
-        return "CRUISING";
-    };
-
     return (
         <div 
-            className="relative w-full h-screen overflow-hidden bg-black select-none"
+            className={`relative w-full h-screen overflow-hidden bg-black select-none ${accessibility.highContrast ? 'high-contrast' : ''} ${accessibility.reducedMotion ? 'reduced-motion' : ''}`}
             onTouchStart={handleTouchStart}
             onTouchEnd={handleTouchEnd}
         >
@@ -139,11 +550,18 @@ export default function App() {
                             </span>
                         </div>
 
+                        {!isReplay && (
+                            <div className="pointer-events-auto mb-3">
+                                <OptionPicker label="BOT" options={AUTOPILOT_IDS} labels={BOT_LABELS} value={aiState.bot}
+                                    onChange={changeBot} title={id => AUTOPILOTS[id].description} />
+                            </div>
+                        )}
+
                         <div className="space-y-1 mb-4">
                             <div className="flex justify-between">
                                 <span className="text-gray-400">STATUS</span>
                                 <span className={`font-bold ${aiState.action === 'DODGE' ? 'text-orange-400' : 'text-white'}`}>
-                                    {getAIReason()}
+                                    {aiState.status}
                                 </span>
                             </div>
                             <div className="flex justify-between">
@@ -154,6 +572,10 @@ export default function App() {
                                 <span className="text-gray-400">THREAT DIST</span>
                                 <span className="font-mono text-cyan-200">{aiState.nearestThreatDist < 9000 ? aiState.nearestThreatDist.toFixed(1) + 'm' : 'CLEAR'}</span>
                             </div>
+                            <div className="flex justify-between">
+                                <span className="text-gray-400">VISION</span>
+                                <span className="font-mono text-cyan-200">{aiState.visionRange}m</span>
+                            </div>
                         </div>
 
                         {/* Lane Viz */}
@@ -180,6 +602,22 @@ export default function App() {
                                 );
                             })}
                         </div>
+
+                        {/* Planner: chosen move sequence and the runners-up */}
+                        {aiState.plan && (
+                            <div className="space-y-1 border-t border-white/10 pt-2 mt-2">
+                                <div className="flex justify-between">
+                                    <span className="text-gray-400">PLAN</span>
+                                    <span className={`font-bold ${aiState.plan.safe ? 'text-white' : 'text-red-400'}`}>{formatPlan(aiState.plan)}</span>
+                                </div>
+                                {aiState.alternatives?.map((alt, i) => (
+                                    <div key={i} className="flex justify-between text-gray-500">
+                                        <span>ALT {alt.value}</span>
+                                        <span>{formatPlan(alt)}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
                     </div>
                 </div>
             )}
@@ -188,7 +626,20 @@ export default function App() {
             <div className="absolute top-0 left-0 w-full p-6 flex justify-between items-start pointer-events-none z-10">
                 <div className="flex flex-col gap-2">
                     <h1 className="text-2xl font-bold text-white neon-text opacity-80 tracking-widest">NEON RUNNER</h1>
-                    {gameState === GameState.PLAYING && (
+                    {gameState === GameState.PLAYING && isReplay && (
+                        <div className="flex items-center gap-2 border border-pink-500 bg-black/40 backdrop-blur px-4 py-2 rounded-full text-pink-400 font-bold text-sm tracking-widest">
+                            <div className="w-3 h-3 rounded-full bg-pink-500 animate-pulse" />
+                            REPLAY // SEED {formatSeed(runSeed)}
+                        </div>
+                    )}
+                    {gameState === GameState.PLAYING && courseRun && (
+                        <div className="pointer-events-auto flex items-center gap-3 border border-yellow-400 bg-black/40 backdrop-blur px-4 py-2 rounded-full text-yellow-300 font-bold text-sm tracking-widest">
+                            <div className="w-3 h-3 rounded-full bg-yellow-400 animate-pulse" />
+                            {COURSE_MODE_LABELS[courseRun.mode]} // {courseRun.course.name || courseRun.course.id}
+                            <button onClick={quitToMenu} className="text-white hover:text-yellow-200 transition-colors">■ STOP</button>
+                        </div>
+                    )}
+                    {gameState === GameState.PLAYING && !isReplay && !courseRun && (
                          <div className={`pointer-events-auto flex items-center gap-2 border bg-black/40 backdrop-blur px-4 py-2 rounded-full transition-all duration-500 ${autoPilot ? 'shadow-[0_0_25px_rgba(0,255,255,0.6)] border-cyan-400' : 'opacity-60 border-gray-600'}`}>
                             <div className={`w-3 h-3 rounded-full ${autoPilot ? 'bg-cyan-400 animate-pulse shadow-[0_0_15px_#0ff]' : 'bg-gray-600'}`} />
                             <button 
@@ -201,12 +652,87 @@ export default function App() {
                     )}
                 </div>
 
-                <div className="text-right">
+                <div className="text-right" data-hud>
+                    {gameState === GameState.PLAYING && (
+                        <button
+                            onClick={pauseGame}
+                            className="pointer-events-auto mb-2 px-3 py-1 border border-cyan-500/50 bg-black/40 rounded text-cyan-300 font-bold text-xs tracking-widest hover:text-white hover:border-cyan-300 transition-colors"
+                        >
+                            II PAUSE
+                        </button>
+                    )}
                     <div className="text-cyan-400 text-sm font-bold tracking-widest neon-text">SCORE</div>
                     <div className="text-4xl font-black text-white neon-text">{score.toString().padStart(6, '0')}</div>
+                    {gameState === GameState.PLAYING && hud.ghost && (
+                        <div className="mt-2 font-mono text-sm">
+                            <span className="text-pink-400 font-bold tracking-widest">GHOST </span>
+                            <span className={hud.ghost.delta >= 0 ? 'text-green-400' : 'text-red-400'}>{formatGhostDelta()}</span>
+                            {!hud.ghost.finished && (
+                                <div className="text-gray-400 text-xs">GHOST {Math.floor(hud.ghost.ghostDistance)}m / {Math.floor(hud.distance)}m</div>
+                            )}
+                        </div>
+                    )}
                 </div>
             </div>
 
+            {/* District banner, shown for a few seconds after entering one */}
+            {gameState === GameState.PLAYING && hud.district && hud.district.age < DISTRICT_BANNER_TIME && (
+                <div
+                    data-hud
+                    className="absolute top-1/4 left-1/2 -translate-x-1/2 z-10 pointer-events-none font-mono text-center whitespace-nowrap"
+                    style={{ opacity: Math.min(1, (DISTRICT_BANNER_TIME - hud.district.age) / 0.8) }}
+                >
+                    <span className="text-xl font-bold text-gray-400 tracking-widest">DISTRICT: </span>
+                    <span className="text-3xl font-black text-white neon-text tracking-widest italic">{hud.district.label}</span>
+                </div>
+            )}
+
+            {/* Combo meter + trick popups */}
+            {gameState === GameState.PLAYING && hud.combo.level > 0 && (
+                <div className="absolute top-28 left-1/2 -translate-x-1/2 z-10 pointer-events-none text-center font-mono" data-hud>
+                    <div className="text-3xl font-black text-pink-400 neon-text-pink italic">COMBO x{hud.combo.level}</div>
+                    <div className="w-32 h-1 mx-auto mt-1 bg-white/10 rounded overflow-hidden">
+                        <div className="h-full bg-pink-500" style={{ width: `${hud.combo.decay * 100}%` }} />
+                    </div>
+                </div>
+            )}
+            {gameState === GameState.PLAYING && hud.popups.map((p, i) => (
+                <div
+                    key={p.id}
+                    data-hud
+                    className={`absolute left-1/2 z-10 pointer-events-none font-black italic text-2xl tracking-widest whitespace-nowrap ${p.kind === 'combo' ? 'text-gray-400' : (p.kind === 'solid' ? 'text-orange-300' : (p.kind === 'jump' ? 'text-cyan-300' : 'text-green-300'))}`}
+                    style={{
+                        top: `${42 - i * 4}%`,
+                        transform: `translate(-50%, ${accessibility.reducedMotion ? 0 : -p.age * 60}px)`,
+                        opacity: Math.max(0, 1 - p.age / 1.2)
+                    }}
+                >
+                    {p.text}
+                </div>
+            ))}
+
+            {/* Power-up timers */}
+            {gameState === GameState.PLAYING && hud.powerUps.length > 0 && (
+                <div className="absolute bottom-16 left-1/2 -translate-x-1/2 z-10 flex gap-4 pointer-events-none font-mono">
+                    {hud.powerUps.map(p => {
+                        const def = POWERUPS[p.type];
+                        const color = `#${def.color.toString(16).padStart(6, '0')}`;
+                        const pct = Number.isFinite(p.duration) ? Math.max(0, p.remaining / p.duration) * 100 : 100;
+                        return (
+                            <div key={p.type} className="w-28 bg-black/60 border border-white/10 rounded px-2 py-1">
+                                <div className="flex justify-between text-[10px] font-bold tracking-widest" style={{ color }}>
+                                    <span>{def.label}</span>
+                                    <span>{p.type === PowerUpType.MULTIPLIER ? `x${p.level + 1}` : (Number.isFinite(p.remaining) ? `${p.remaining.toFixed(1)}s` : '1 HIT')}</span>
+                                </div>
+                                <div className="h-1.5 mt-1 bg-white/10 rounded overflow-hidden">
+                                    <div className="h-full rounded" style={{ width: `${pct}%`, backgroundColor: color, boxShadow: `0 0 8px ${color}` }} />
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
             {/* Menus */}
             {gameState === GameState.MENU && (
                 <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/80 backdrop-blur-sm z-20">
@@ -216,36 +742,284 @@ export default function App() {
                     <p className="text-cyan-200 mb-8 text-lg tracking-widest opacity-80">INFINITE CITY PROTOCOL</p>
                     
                     <button 
-                        onClick={startGame}
+                        onClick={newRun}
                         className="group relative px-12 py-4 bg-transparent overflow-hidden rounded-full border border-cyan-500 hover:border-pink-500 transition-colors duration-300"
                     >
                         <div className="absolute inset-0 w-full h-full bg-cyan-500/20 group-hover:bg-pink-500/20 transition-colors duration-300 blur-md"></div>
                         <span className="relative text-2xl font-bold text-white tracking-widest group-hover:neon-text-pink">INITIATE RUN</span>
                     </button>
 
+                    <button
+                        onClick={() => startGame(dailySeed(), true)}
+                        className="mt-4 px-6 py-2 border border-pink-500/60 text-pink-300 font-bold text-sm tracking-widest rounded-full hover:bg-pink-500/20 transition-colors"
+                    >
+                        DAILY SEED // {formatSeed(dailySeed())}
+                    </button>
+
+                    {bestGhost && (
+                        <label className="mt-4 flex items-center gap-2 text-sm text-gray-400 tracking-widest cursor-pointer">
+                            <input type="checkbox" checked={ghostEnabled} onChange={(e) => setGhostEnabled(e.target.checked)} className="accent-pink-500" />
+                            RACE BEST GHOST ({Math.floor(bestGhost.distance)}m, SEED {formatSeed(bestGhost.seed)})
+                        </label>
+                    )}
+
+                    <div className="mt-4 flex gap-2 items-center font-mono text-sm">
+                        <input
+                            value={seedInput}
+                            onChange={(e) => setSeedInput(e.target.value)}
+                            placeholder="SEED (HEX)"
+                            maxLength={10}
+                            className="w-32 bg-black/60 border border-gray-700 rounded px-2 py-1 text-cyan-200 uppercase tracking-widest outline-none focus:border-cyan-400"
+                        />
+                        <button
+                            onClick={() => { const s = parseSeed(seedInput); if (s !== null) startGame(s); }}
+                            disabled={parseSeed(seedInput) === null}
+                            className="px-3 py-1 border border-gray-700 rounded text-gray-300 hover:border-cyan-400 hover:text-white disabled:opacity-30 transition-colors"
+                        >
+                            RUN SEED
+                        </button>
+                    </div>
+
+                    <div className="mt-4 flex flex-wrap justify-center gap-3">
+                        <button
+                            onClick={() => setLeaderboard(loadLeaderboard())}
+                            className="px-6 py-2 border border-yellow-500/60 text-yellow-300 font-bold text-sm tracking-widest rounded-full hover:bg-yellow-500/20 transition-colors"
+                        >
+                            LEADERBOARD
+                        </button>
+                        <button
+                            onClick={openEditor}
+                            className="px-6 py-2 border border-gray-400/60 text-gray-200 font-bold text-sm tracking-widest rounded-full hover:border-white hover:text-white transition-colors"
+                        >
+                            TRACK EDITOR
+                        </button>
+                        <button
+                            onClick={() => setControlsOpen(true)}
+                            className="px-6 py-2 border border-gray-400/60 text-gray-200 font-bold text-sm tracking-widest rounded-full hover:border-white hover:text-white transition-colors"
+                        >
+                            CONTROLS
+                        </button>
+                        <button
+                            onClick={() => setAccessibilityOpen(true)}
+                            className="px-6 py-2 border border-gray-400/60 text-gray-200 font-bold text-sm tracking-widest rounded-full hover:border-white hover:text-white transition-colors"
+                        >
+                            ACCESSIBILITY
+                        </button>
+                        <button
+                            onClick={() => policyInputRef.current?.click()}
+                            className="px-6 py-2 border border-cyan-400/60 text-cyan-300 font-bold text-sm tracking-widest rounded-full hover:bg-cyan-500/20 transition-colors"
+                        >
+                            LOAD AI POLICY
+                        </button>
+                        <input ref={policyInputRef} type="file" accept="application/json,.json" className="hidden" onChange={importPolicy} />
+                    </div>
+                    {policyMessage && (
+                        <div className={`mt-3 text-sm font-mono ${policyMessage.error ? 'text-red-300' : 'text-cyan-300'}`}>{policyMessage.text}</div>
+                    )}
+
+                    <div className="mt-6 flex flex-col items-center gap-3">
+                        <OptionPicker label="DIFFICULTY" options={DIFFICULTY_IDS} labels={DIFFICULTY_LABELS}
+                            value={difficulty} onChange={changeDifficulty} title={d => DIFFICULTIES[d].description} />
+                        <OptionPicker label="GRAPHICS" options={QUALITY_SETTINGS} labels={QUALITY_LABELS} value={quality} onChange={changeQuality} />
+                        <AudioSettingsPanel settings={audioSettings} onChange={changeAudio} />
+                    </div>
+
                     <div className="mt-12 flex gap-4 text-gray-500 text-sm">
-                        <span className="border border-gray-700 px-3 py-1 rounded">WASD / ARROWS</span>
-                        <span className="border border-gray-700 px-3 py-1 rounded">SPACE TO JUMP</span>
+                        <span className="border border-gray-700 px-3 py-1 rounded">{bindingHint(bindings, 'left')} · {bindingHint(bindings, 'right')} TO MOVE</span>
+                        <span className="border border-gray-700 px-3 py-1 rounded">{bindingHint(bindings, 'jump')} TO JUMP</span>
                         <span className="border border-gray-700 px-3 py-1 rounded">SWIPE TO MOVE</span>
+                        <span className="border border-gray-700 px-3 py-1 rounded">{bindingHint(bindings, 'pause')} TO PAUSE</span>
+                        {gamepadConnected && <span className="border border-green-700 text-green-400 px-3 py-1 rounded">GAMEPAD READY</span>}
+                    </div>
+                </div>
+            )}
+
+            {gameState === GameState.PAUSED && countdown === null && (
+                <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/70 backdrop-blur-sm z-20">
+                    <h2 className="text-6xl font-black text-white mb-10 neon-text tracking-widest italic">PAUSED</h2>
+                    <div className="flex flex-col gap-4 w-64">
+                        <button
+                            onClick={resumeGame}
+                            className="px-8 py-3 bg-white text-black font-bold text-xl rounded-full hover:bg-cyan-400 transition-all shadow-[0_0_20px_rgba(255,255,255,0.4)]"
+                        >
+                            RESUME
+                        </button>
+                        <button
+                            onClick={restartGame}
+                            className="px-8 py-3 border border-cyan-400 text-cyan-300 font-bold text-xl rounded-full hover:bg-cyan-400/20 transition-all"
+                        >
+                            RESTART
+                        </button>
+                        <button
+                            onClick={quitToMenu}
+                            className="px-8 py-3 border border-gray-500 text-gray-300 font-bold text-xl rounded-full hover:border-white hover:text-white transition-all"
+                        >
+                            {editorOpen ? 'BACK TO EDITOR' : 'QUIT TO MENU'}
+                        </button>
+                        <button
+                            onClick={() => setAccessibilityOpen(true)}
+                            className="px-8 py-2 border border-gray-700 text-gray-400 font-bold text-sm tracking-widest rounded-full hover:border-white hover:text-white transition-all"
+                        >
+                            ACCESSIBILITY
+                        </button>
                     </div>
+                    <div className="mt-8 flex flex-col items-center gap-3">
+                        <OptionPicker label="GRAPHICS" options={QUALITY_SETTINGS} labels={QUALITY_LABELS} value={quality} onChange={changeQuality} />
+                        <AudioSettingsPanel settings={audioSettings} onChange={changeAudio} />
+                    </div>
+                    <p className="mt-8 text-gray-500 text-sm tracking-widest">{bindingHint(bindings, 'pause')} TO RESUME</p>
+                </div>
+            )}
+
+            {gameState === GameState.PAUSED && countdown !== null && (
+                <div className="absolute inset-0 flex items-center justify-center z-20 pointer-events-none">
+                    <span key={countdown} className="text-9xl font-black text-white neon-text animate-pulse">{countdown}</span>
                 </div>
             )}
 
             {gameState === GameState.GAME_OVER && (
                 <div className="absolute inset-0 flex flex-col items-center justify-center bg-red-900/40 backdrop-blur-md z-20">
                     <h2 className="text-7xl font-black text-red-500 mb-4 shadow-red-500 drop-shadow-[0_0_30px_rgba(255,0,0,0.8)] italic">CRASHED</h2>
-                    <div className="text-white text-2xl mb-8">
+                    {newBest && (
+                        <div className="text-4xl font-black text-yellow-300 mb-3 tracking-widest italic animate-bounce drop-shadow-[0_0_20px_rgba(255,215,0,0.9)]">
+                            NEW BEST!
+                        </div>
+                    )}
+                    <div className="text-white text-2xl mb-2">
                         FINAL SCORE: <span className="text-yellow-400 font-mono font-bold">{finalScore}</span>
                     </div>
-                    <button 
-                        onClick={startGame}
-                        className="px-10 py-3 bg-white text-black font-bold text-xl rounded-full hover:bg-cyan-400 hover:scale-105 transition-all shadow-[0_0_20px_rgba(255,255,255,0.4)]"
+                    {runStats && (
+                        <div className="flex gap-6 text-gray-300 text-sm font-mono mb-2 tracking-widest">
+                            <span>DIST <span className="text-white font-bold">{Math.floor(runStats.distance)}m</span></span>
+                            <span>COINS <span className="text-white font-bold">{runStats.coins}</span></span>
+                            <span>MAX SPD <span className="text-white font-bold">{Math.round(runStats.maxSpeed)}</span></span>
+                            {runStats.autopilotUsed && <span className="text-cyan-300">AUTOPILOT-ASSISTED</span>}
+                            {runStats.slowed && <span className="text-cyan-300">SLOWED</span>}
+                        </div>
+                    )}
+                    {runStats && (
+                        <div className="grid grid-cols-3 gap-x-6 text-center font-mono mb-4 bg-black/40 border border-white/10 rounded-lg px-6 py-2">
+                            <span className="text-[10px] text-gray-400 tracking-widest">DISTANCE</span>
+                            <span className="text-[10px] text-gray-400 tracking-widest">COINS</span>
+                            <span className="text-[10px] text-gray-400 tracking-widest">TRICKS</span>
+                            <span className="text-white font-bold">{runStats.distanceScore}</span>
+                            <span className="text-yellow-300 font-bold">{runStats.coinScore}</span>
+                            <span className="text-pink-300 font-bold">{runStats.trickScore}</span>
+                            <span className="text-[10px] text-gray-500 col-start-3">{runStats.nearMisses} NEAR MISSES · BEST x{runStats.bestCombo}</span>
+                        </div>
+                    )}
+                    {canSubmit && (
+                        <div className="flex gap-2 items-center mb-4 font-mono">
+                            <input
+                                value={playerName}
+                                onChange={(e) => setPlayerName(e.target.value.toUpperCase())}
+                                onKeyDown={(e) => { if (e.key === 'Enter') submitScore(); }}
+                                placeholder="AAA"
+                                maxLength={3}
+                                className="w-20 bg-black/60 border border-yellow-500/60 rounded px-2 py-1 text-yellow-200 text-center text-xl uppercase tracking-widest outline-none focus:border-yellow-300"
+                            />
+                            <button
+                                onClick={submitScore}
+                                className="px-4 py-1 border border-yellow-500/60 rounded text-yellow-300 font-bold tracking-widest hover:bg-yellow-500/20 transition-colors"
+                            >
+                                SAVE SCORE
+                            </button>
+                        </div>
+                    )}
+                    {savedRank > 0 && (
+                        <div className="text-yellow-300 text-sm font-bold tracking-widest mb-4">
+                            RANKED #{savedRank} {runStats?.autopilotUsed || runStats?.slowed ? '(ASSISTED)' : ''}
+                        </div>
+                    )}
+                    <div className="text-gray-300 text-sm mb-8 font-mono tracking-widest">
+                        {isDailyRun ? 'DAILY ' : ''}SEED: <span className="text-cyan-300 font-bold select-text">{formatSeed(runSeed)}</span>
+                    </div>
+                    <div className="flex gap-4">
+                        <button 
+                            onClick={newRun}
+                            className="px-10 py-3 bg-white text-black font-bold text-xl rounded-full hover:bg-cyan-400 hover:scale-105 transition-all shadow-[0_0_20px_rgba(255,255,255,0.4)]"
+                        >
+                            RETRY
+                        </button>
+                        <button 
+                            onClick={() => startGame(runSeed, isDailyRun)}
+                            className="px-8 py-3 border border-cyan-400 text-cyan-300 font-bold text-xl rounded-full hover:bg-cyan-400/20 transition-all"
+                        >
+                            SAME SEED
+                        </button>
+                    </div>
+                    <div className="flex gap-3 mt-6 text-sm font-bold tracking-widest">
+                        {lastReplay && (
+                            <>
+                                <button
+                                    onClick={() => watchReplay(lastReplay)}
+                                    className="px-4 py-2 border border-gray-400/60 text-gray-200 rounded-full hover:border-white hover:text-white transition-colors"
+                                >
+                                    WATCH REPLAY
+                                </button>
+                                <button
+                                    onClick={() => downloadReplay(lastReplay)}
+                                    className="px-4 py-2 border border-gray-400/60 text-gray-200 rounded-full hover:border-white hover:text-white transition-colors"
+                                >
+                                    EXPORT REPLAY
+                                </button>
+                            </>
+                        )}
+                        <button
+                            onClick={() => replayInputRef.current?.click()}
+                            className="px-4 py-2 border border-gray-400/60 text-gray-200 rounded-full hover:border-white hover:text-white transition-colors"
+                        >
+                            IMPORT REPLAY
+                        </button>
+                        <input ref={replayInputRef} type="file" accept="application/json,.json" className="hidden" onChange={importReplay} />
+                        <button
+                            onClick={() => ghostInputRef.current?.click()}
+                            className="px-4 py-2 border border-pink-400/60 text-pink-300 rounded-full hover:border-pink-300 hover:text-white transition-colors"
+                        >
+                            RACE IMPORTED GHOST
+                        </button>
+                        <input ref={ghostInputRef} type="file" accept="application/json,.json" className="hidden" onChange={importGhost} />
+                    </div>
+                    <button
+                        onClick={() => setLeaderboard(loadLeaderboard())}
+                        className="mt-4 text-yellow-300 text-sm font-bold tracking-widest hover:text-white transition-colors"
                     >
-                        RETRY
+                        VIEW LEADERBOARD
                     </button>
+                    {replayError && (
+                        <div className="mt-3 text-red-300 text-sm font-mono">{replayError}</div>
+                    )}
                 </div>
             )}
             
+            {editorOpen && (
+                <div className={gameState === GameState.EDITOR ? '' : 'hidden'}>
+                    <ChunkEditor config={editorConfig} lastResult={courseResult} onRun={runCourse} onClose={closeEditor} />
+                </div>
+            )}
+
+            {accessibilityOpen && (
+                <AccessibilityPanel settings={accessibility} onChange={changeAccessibility} onClose={() => setAccessibilityOpen(false)} />
+            )}
+
+            {controlsOpen && (
+                <ControlsPanel
+                    bindings={bindings}
+                    gamepadConnected={gamepadConnected}
+                    onChange={changeBindings}
+                    onCaptureKey={(callback) => inputRef.current?.captureNextKey(callback)}
+                    onClose={() => setControlsOpen(false)}
+                />
+            )}
+
+            {leaderboard && (
+                <LeaderboardView board={leaderboard} onClose={() => setLeaderboard(null)} />
+            )}
+
+            {renderStats && <DebugPanel stats={renderStats} />}
+
+            <div className="sr-only" aria-live="polite" aria-atomic="true">{announcement}</div>
+
             {/* Mobile Controls Hint (Visible only when playing) */}
             {gameState === GameState.PLAYING && (
                 <div className="absolute bottom-8 w-full text-center text-white/30 text-xs pointer-events-none md:hidden">
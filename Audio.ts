@@ -0,0 +1,315 @@
+import { EngineEvent } from './types';
+
+const STORAGE_KEY = 'neon-runner.audio';
+
+export interface AudioSettings {
+    master: number; // 0-1
+    sfx: number;
+    music: number;
+    muted: boolean;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = { master: 0.8, sfx: 0.8, music: 0.5, muted: false };
+
+const SMOOTHING = 0.05; // seconds for volume and hum changes to settle
+const MUSIC_LOOKAHEAD = 0.15; // seconds of notes scheduled ahead of the clock
+const MUSIC_STEP = 60 / 112 / 2; // eighth notes at 112 BPM
+const BASS_LINE = [45, 45, 57, 45, 43, 43, 55, 43, 41, 41, 53, 41, 43, 43, 55, 47]; // MIDI notes, A minor
+const ARP = [69, 72, 76, 72, 67, 71, 74, 71, 65, 69, 72, 69, 67, 71, 74, 79];
+
+const midiToFreq = (note: number) => 440 * Math.pow(2, (note - 69) / 12);
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+interface Hum {
+    low: OscillatorNode;
+    high: OscillatorNode;
+    filter: BiquadFilterNode;
+    gain: GainNode;
+}
+
+// Procedural sound: every effect is built from oscillators and filtered noise, so there is nothing to download.
+// It only listens to GameEngine events (see GameEngine.subscribe) and never reaches into the game.
+export class AudioEngine {
+    private ctx: AudioContext | null = null;
+    private master: GainNode | null = null;
+    private sfx: GainNode | null = null;
+    private music: GainNode | null = null;
+    private noise: AudioBuffer | null = null;
+    private hum: Hum | null = null;
+    private settings: AudioSettings;
+
+    private musicTimer: number = 0;
+    private nextNoteTime: number = 0;
+    private step: number = 0;
+
+    constructor(settings: AudioSettings) {
+        this.settings = settings;
+    }
+
+    // Browsers only start audio from a user gesture, so call this from input handlers
+    public unlock() {
+        if (!this.ctx) this.init();
+        else if (this.ctx.state === 'suspended') this.ctx.resume();
+    }
+
+    private init() {
+        const Context = window.AudioContext || (window as any).webkitAudioContext;
+        if (!Context) return;
+        const ctx = this.ctx = new Context();
+        this.master = ctx.createGain();
+        this.master.connect(ctx.destination);
+        this.sfx = ctx.createGain();
+        this.sfx.connect(this.master);
+        this.music = ctx.createGain();
+        this.music.connect(this.master);
+        this.applySettings(true);
+
+        // One second of white noise, reused by every noise-based effect
+        this.noise = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+        const data = this.noise.getChannelData(0);
+        for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+    }
+
+    public setSettings(settings: AudioSettings) {
+        this.settings = settings;
+        this.applySettings(false);
+    }
+
+    private applySettings(immediate: boolean) {
+        if (!this.ctx || !this.master || !this.sfx || !this.music) return;
+        const set = (node: GainNode, value: number) => {
+            if (immediate) node.gain.value = value;
+            else node.gain.setTargetAtTime(value, this.ctx!.currentTime, SMOOTHING);
+        };
+        set(this.master, this.settings.muted ? 0 : this.settings.master);
+        set(this.sfx, this.settings.sfx);
+        set(this.music, this.settings.music * 0.5);
+    }
+
+    public handle = (event: EngineEvent) => {
+        if (!this.ctx) return;
+        switch (event.type) {
+            case 'runStart':
+            case 'resume':
+                this.startHum();
+                this.startMusic();
+                break;
+            case 'pause':
+            case 'stop':
+                this.stopHum();
+                this.stopMusic();
+                break;
+            case 'gameOver':
+                this.stopHum();
+                this.stopMusic();
+                if (event.cleared) [523, 659, 784, 1046].forEach((f, i) => this.tone(f, f, 0.25, 'triangle', 0.3, 0, i * 0.09));
+                else this.crash();
+                break;
+            case 'frame':
+                this.updateHum(event.speed, event.maxSpeed);
+                break;
+            case 'laneChange':
+                this.noiseSweep(0.18, 'bandpass', 500, 1800, 0.35, event.direction * 0.6);
+                break;
+            case 'jump':
+                this.tone(180, 520, 0.15, 'sine', 0.35);
+                break;
+            case 'land':
+                this.tone(110, 45, 0.18, 'sine', 0.5);
+                this.noiseSweep(0.08, 'lowpass', 400, 150, 0.3);
+                break;
+            case 'fastFall':
+                this.tone(600, 90, 0.16, 'sawtooth', 0.15);
+                break;
+            case 'roll':
+                this.noiseSweep(0.25, 'lowpass', 900, 200, 0.3);
+                break;
+            case 'coin':
+                this.tone(1318, 1318, 0.08, 'triangle', 0.25);
+                this.tone(1760, 1760, 0.14, 'triangle', 0.25, 0, 0.06);
+                break;
+            case 'powerup':
+                [523, 659, 784, 1046].forEach((f, i) => this.tone(f, f, 0.1, 'square', 0.12, 0, i * 0.05));
+                break;
+            case 'powerupExpired':
+                this.tone(784, 392, 0.2, 'square', 0.08);
+                break;
+            case 'shieldBreak':
+                this.noiseSweep(0.3, 'highpass', 3000, 5000, 0.4);
+                this.tone(2000, 600, 0.25, 'sawtooth', 0.15);
+                break;
+            case 'nearMiss':
+                this.tone(880, 1320 + event.combo * 60, 0.12, 'triangle', 0.2);
+                break;
+            case 'comboLost':
+                this.tone(440, 220, 0.3, 'sawtooth', 0.1);
+                break;
+            case 'obstaclePass':
+                this.doppler(event.dx);
+                break;
+        }
+    }
+
+    // --- ENGINE HUM ---
+    private startHum() {
+        if (this.hum || !this.ctx || !this.sfx) return;
+        const ctx = this.ctx;
+        const low = ctx.createOscillator();
+        const high = ctx.createOscillator();
+        low.type = 'sawtooth';
+        high.type = 'square';
+        high.detune.value = 7;
+        const filter = ctx.createBiquadFilter();
+        filter.type = 'lowpass';
+        filter.Q.value = 4;
+        const gain = ctx.createGain();
+        gain.gain.value = 0;
+        gain.gain.setTargetAtTime(0.12, ctx.currentTime, 0.2);
+        low.connect(filter);
+        high.connect(filter);
+        filter.connect(gain);
+        gain.connect(this.sfx);
+        low.start();
+        high.start();
+        this.hum = { low, high, filter, gain };
+    }
+
+    // Pitch and brightness follow gameSpeed
+    private updateHum(speed: number, maxSpeed: number) {
+        if (!this.hum || !this.ctx) return;
+        const now = this.ctx.currentTime;
+        const base = 40 + speed * 0.5;
+        this.hum.low.frequency.setTargetAtTime(base, now, SMOOTHING);
+        this.hum.high.frequency.setTargetAtTime(base * 2, now, SMOOTHING);
+        this.hum.filter.frequency.setTargetAtTime(300 + 1500 * clamp01(speed / maxSpeed), now, SMOOTHING);
+    }
+
+    private stopHum() {
+        if (!this.hum || !this.ctx) return;
+        const { low, high, gain } = this.hum;
+        const end = this.ctx.currentTime + 0.3;
+        gain.gain.setTargetAtTime(0, this.ctx.currentTime, 0.08);
+        low.stop(end);
+        high.stop(end);
+        this.hum = null;
+    }
+
+    // --- MUSIC ---
+    private startMusic() {
+        if (this.musicTimer || !this.ctx) return;
+        this.nextNoteTime = this.ctx.currentTime + 0.05;
+        this.musicTimer = window.setInterval(this.scheduleMusic, 50);
+    }
+
+    private stopMusic() {
+        window.clearInterval(this.musicTimer);
+        this.musicTimer = 0;
+    }
+
+    private scheduleMusic = () => {
+        if (!this.ctx || !this.music) return;
+        while (this.nextNoteTime < this.ctx.currentTime + MUSIC_LOOKAHEAD) {
+            const i = this.step % BASS_LINE.length;
+            if (i % 2 === 0) this.tone(midiToFreq(BASS_LINE[i]), midiToFreq(BASS_LINE[i]), MUSIC_STEP * 1.8, 'sawtooth', 0.25, 0, 0, this.music, this.nextNoteTime);
+            this.tone(midiToFreq(ARP[i]), midiToFreq(ARP[i]), MUSIC_STEP * 0.9, 'triangle', 0.15, (i % 4 - 1.5) * 0.3, 0, this.music, this.nextNoteTime);
+            this.nextNoteTime += MUSIC_STEP;
+            this.step++;
+        }
+    }
+
+    // --- VOICES ---
+    private tone(
+        from: number, to: number, duration: number, type: OscillatorType, volume: number,
+        pan: number = 0, delay: number = 0, bus: GainNode | null = this.sfx, at?: number
+    ) {
+        if (!this.ctx || !bus) return;
+        const ctx = this.ctx;
+        const start = (at ?? ctx.currentTime) + delay;
+        const osc = ctx.createOscillator();
+        osc.type = type;
+        osc.frequency.setValueAtTime(from, start);
+        if (to !== from) osc.frequency.exponentialRampToValueAtTime(to, start + duration);
+        osc.connect(this.envelope(start, duration, volume, pan, bus));
+        osc.start(start);
+        osc.stop(start + duration + 0.05);
+    }
+
+    private noiseSweep(duration: number, filterType: BiquadFilterType, from: number, to: number, volume: number, pan: number = 0) {
+        if (!this.ctx || !this.noise || !this.sfx) return;
+        const ctx = this.ctx;
+        const start = ctx.currentTime;
+        const source = ctx.createBufferSource();
+        source.buffer = this.noise;
+        source.loop = true;
+        const filter = ctx.createBiquadFilter();
+        filter.type = filterType;
+        filter.Q.value = 1.5;
+        filter.frequency.setValueAtTime(from, start);
+        filter.frequency.exponentialRampToValueAtTime(to, start + duration);
+        source.connect(filter);
+        filter.connect(this.envelope(start, duration, volume, pan, this.sfx));
+        source.start(start, Math.random());
+        source.stop(start + duration + 0.05);
+    }
+
+    // Quick attack, exponential decay, then stereo placement
+    private envelope(start: number, duration: number, volume: number, pan: number, bus: GainNode): AudioNode {
+        const ctx = this.ctx!;
+        const gain = ctx.createGain();
+        gain.gain.setValueAtTime(0.0001, start);
+        gain.gain.exponentialRampToValueAtTime(volume, start + 0.01);
+        gain.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+        if (ctx.createStereoPanner) {
+            const panner = ctx.createStereoPanner();
+            panner.pan.value = Math.max(-1, Math.min(1, pan));
+            gain.connect(panner);
+            panner.connect(bus);
+        } else {
+            gain.connect(bus);
+        }
+        return gain;
+    }
+
+    // Obstacle rushing past: a falling swoosh, louder and more centred the closer it was
+    private doppler(dx: number) {
+        const distance = Math.abs(dx);
+        if (distance > 9) return;
+        this.noiseSweep(0.28, 'bandpass', 2400, 450, 0.45 / (1 + distance / 3), dx / 6);
+    }
+
+    private crash() {
+        this.noiseSweep(0.9, 'lowpass', 2500, 80, 0.9);
+        this.tone(90, 30, 0.7, 'sine', 0.8);
+    }
+
+    public dispose() {
+        this.stopMusic();
+        this.stopHum();
+        this.ctx?.close();
+        this.ctx = null;
+    }
+}
+
+export function loadAudioSettings(): AudioSettings {
+    try {
+        const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+        if (!raw || typeof raw !== 'object') return { ...DEFAULT_AUDIO_SETTINGS };
+        const level = (v: unknown, fallback: number) => typeof v === 'number' && Number.isFinite(v) ? clamp01(v) : fallback;
+        return {
+            master: level(raw.master, DEFAULT_AUDIO_SETTINGS.master),
+            sfx: level(raw.sfx, DEFAULT_AUDIO_SETTINGS.sfx),
+            music: level(raw.music, DEFAULT_AUDIO_SETTINGS.music),
+            muted: raw.muted === true
+        };
+    } catch {
+        return { ...DEFAULT_AUDIO_SETTINGS };
+    }
+}
+
+export function saveAudioSettings(settings: AudioSettings) {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch {
+        // ignore
+    }
+}
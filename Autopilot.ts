@@ -0,0 +1,100 @@
+import { AIState, AutopilotId, CollisionType, GameConfig, PlayerState, PowerUpType } from './types';
+import type { GameSimulation } from './Simulation';
+import { HeuristicAutopilot } from './HeuristicAutopilot';
+import { ReflexAutopilot } from './ReflexAutopilot';
+import { PlannerAutopilot } from './PlannerAutopilot';
+import { PolicyAutopilot } from './PolicyAutopilot';
+
+export interface ObservedObstacle {
+    type: CollisionType;
+    powerUp?: PowerUpType;
+    height?: number; // floating coins are only collected near this height
+    distance: number; // metres ahead of the player; negative once it has gone past
+}
+
+export interface LaneObservation {
+    lane: number;
+    obstacles: ObservedObstacle[]; // nearest first
+}
+
+// Read-only snapshot of what a bot may know: only what's within visibility, nothing about rows not yet spawned
+export interface AutopilotObservation {
+    config: Readonly<GameConfig>;
+    player: Readonly<PlayerState>;
+    speed: number;
+    visibility: number; // metres; weather shortens it
+    lanes: LaneObservation[]; // lanes -1, 0 and 1
+    shielded: boolean;
+    timeToLand: number; // seconds until an airborne player touches down; 0 on the ground
+    fastFallTime: number; // seconds a fast-fall from here would take
+}
+
+// What the debug panel shows; `status` is a one-line explanation of the current decision
+export type AutopilotReport = Pick<AIState, 'action' | 'confidence' | 'nearestThreatDist' | 'visionRange' | 'laneScores' | 'status' | 'plan' | 'alternatives'>;
+
+export interface AutopilotDecision {
+    lane: number; // lane to head for
+    jump: boolean;
+    roll: boolean;
+    report: AutopilotReport;
+}
+
+// A bot drives the same controls a player has. decide() runs once per simulation tick while the autopilot
+// is engaged and must be deterministic, since replays re-run it instead of recording what it did.
+export interface AutopilotController {
+    reset(): void;
+    decide(observation: AutopilotObservation, dt: number): AutopilotDecision;
+}
+
+export const PASSED_LOOKBACK = 10; // metres behind the player that obstacles stay observable
+
+export function observe(sim: GameSimulation): AutopilotObservation {
+    const range = sim.visibility;
+    const lanes: LaneObservation[] = [-1, 0, 1].map(lane => ({ lane, obstacles: [] }));
+    for (const o of sim.obstacles) {
+        if (!o.active || o.z <= -range || o.z >= PASSED_LOOKBACK) continue;
+        const entry: ObservedObstacle = { type: o.type, distance: -o.z };
+        if (o.powerUp) entry.powerUp = o.powerUp;
+        if (o.y !== undefined) entry.height = o.y;
+        lanes[o.lane + 1]?.obstacles.push(entry);
+    }
+    lanes.forEach(l => l.obstacles.sort((a, b) => a.distance - b.distance));
+
+    return {
+        config: sim.config,
+        player: { ...sim.player },
+        speed: sim.gameSpeed,
+        visibility: range,
+        lanes,
+        shielded: sim.hasPowerUp(PowerUpType.SHIELD),
+        timeToLand: sim.timeToLand(),
+        fastFallTime: sim.timeToLand(true)
+    };
+}
+
+// --- REGISTRY ---
+export const AUTOPILOTS: Record<AutopilotId, { label: string; description: string; create: () => AutopilotController }> = {
+    heuristic: {
+        label: 'SCORER',
+        description: 'Scores every lane for threats and pickups and heads for the best one',
+        create: () => new HeuristicAutopilot()
+    },
+    reflex: {
+        label: 'REFLEX',
+        description: 'Holds its lane and only reacts to the next threat in it',
+        create: () => new ReflexAutopilot()
+    },
+    planner: {
+        label: 'PLANNER',
+        description: 'Simulates the run a second ahead and picks the collision-free move sequence with the most coins',
+        create: () => new PlannerAutopilot()
+    },
+    policy: {
+        label: 'POLICY',
+        description: 'Plays the trained policy loaded from the menu',
+        create: () => new PolicyAutopilot()
+    }
+};
+
+export const AUTOPILOT_IDS = Object.keys(AUTOPILOTS) as AutopilotId[];
+export const DEFAULT_AUTOPILOT: AutopilotId = 'heuristic';
@@ -0,0 +1,228 @@
+import { AIState, AutopilotId, CollisionType, ObstacleState } from './types';
+import { GameSimulation, RULES_VERSION, resolveConfig } from './Simulation';
+import { DEFAULT_CHUNKS, chunkPackHash } from './Chunks';
+import { Difficulty, DIFFICULTIES } from './Difficulty';
+import { DEFAULT_AUTOPILOT } from './Autopilot';
+
+export const BENCHMARK_FORMAT = 'neon-runner-benchmark';
+export const BENCHMARK_VERSION = 1;
+
+// What the player was doing when it crashed. Side-blocked wins over the others: it means there was no lane to dodge into.
+export type DeathSituation = 'sideBlocked' | 'midJump' | 'midRoll' | 'laneChange' | 'running';
+export const DEATH_SITUATIONS: DeathSituation[] = ['sideBlocked', 'midJump', 'midRoll', 'laneChange', 'running'];
+const HAZARDS = [CollisionType.SOLID, CollisionType.JUMP, CollisionType.DUCK];
+const DECISIONS: AIState['action'][] = ['RUN', 'JUMP', 'DUCK', 'DODGE', 'SCANNING'];
+
+// A neighbouring lane counts as blocked while a hazard is this close alongside (same window the lane scorer uses)
+const SIDE_AHEAD = 4;
+const SIDE_BEHIND = 5;
+
+export interface BenchmarkOptions {
+    bot: AutopilotId;
+    difficulty: Difficulty;
+    runs: number;
+    firstSeed: number; // runs use consecutive seeds from here
+    distanceCap: number; // metres; reaching it counts as surviving
+}
+
+export const DEFAULT_BENCHMARK: BenchmarkOptions = {
+    bot: DEFAULT_AUTOPILOT,
+    difficulty: 'normal',
+    runs: 50,
+    firstSeed: 1,
+    distanceCap: 20000
+};
+
+export interface BenchmarkRun {
+    seed: number;
+    distance: number;
+    survived: boolean;
+    score: number;
+    coins: number;
+    ticks: number;
+    death: { type: CollisionType; situation: DeathSituation } | null;
+}
+
+export interface Distribution {
+    min: number;
+    p10: number;
+    p25: number;
+    median: number;
+    p75: number;
+    p90: number;
+    max: number;
+    mean: number;
+}
+
+export interface BenchmarkReport {
+    format: typeof BENCHMARK_FORMAT;
+    version: number;
+    rulesVersion: number; // results are only comparable under the same rules and chunks
+    chunkHash: number;
+    options: BenchmarkOptions;
+    survived: number;
+    distance: Distribution;
+    coins: Distribution;
+    deathsByType: Record<string, number>;
+    deathsBySituation: Record<DeathSituation, number>;
+    decisions: Record<AIState['action'], number>; // ticks the bot reported each action
+    inputs: { laneChanges: number; jumps: number; rolls: number; fastFalls: number }; // totals over all runs
+    shieldSaves: number; // crashes a shield absorbed
+    elapsedMs: number;
+    runs: BenchmarkRun[];
+}
+
+function classifyDeath(sim: GameSimulation, obstacle: ObstacleState): DeathSituation {
+    const p = sim.player;
+    const blocked = (lane: number) => lane < -1 || lane > 1 || sim.obstacles.some(o =>
+        o.active && o.lane === lane && HAZARDS.includes(o.type) && o.z > -SIDE_AHEAD && o.z < SIDE_BEHIND);
+    if (blocked(obstacle.lane - 1) && blocked(obstacle.lane + 1)) return 'sideBlocked';
+    if (p.isJumping) return 'midJump';
+    if (p.isRolling) return 'midRoll';
+    if (p.x !== p.lane * sim.config.laneWidth) return 'laneChange';
+    return 'running';
+}
+
+// Nearest-rank percentiles
+export function distribution(values: number[]): Distribution {
+    const sorted = [...values].sort((a, b) => a - b);
+    const at = (q: number) => sorted.length ? sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(q * sorted.length) - 1))] : 0;
+    const mean = sorted.length ? sorted.reduce((a, b) => a + b, 0) / sorted.length : 0;
+    return { min: at(0), p10: at(0.1), p25: at(0.25), median: at(0.5), p75: at(0.75), p90: at(0.9), max: at(1), mean };
+}
+
+// Plays the autopilot headlessly over a range of seeds. Runs end at a crash or at the distance cap.
+export function runBenchmark(options: BenchmarkOptions, onRun?: (run: BenchmarkRun, index: number) => void): BenchmarkReport {
+    if (!(options.runs >= 1)) throw new Error('Benchmark needs at least one run');
+    if (!(options.distanceCap > 0)) throw new Error('Benchmark distance cap must be positive');
+    const config = resolveConfig(DIFFICULTIES[options.difficulty].config);
+    const dt = 1 / config.simulationRate;
+    const started = Date.now();
+
+    const runs: BenchmarkRun[] = [];
+    const decisions = Object.fromEntries(DECISIONS.map(d => [d, 0])) as Record<AIState['action'], number>;
+    const inputs = { laneChanges: 0, jumps: 0, rolls: 0, fastFalls: 0 };
+    let shieldSaves = 0;
+
+    for (let i = 0; i < options.runs; i++) {
+        const seed = options.firstSeed + i;
+        const sim = new GameSimulation(config);
+        sim.reset(seed);
+        sim.input(`bot:${options.bot}`);
+        sim.input('autopilotOn');
+
+        let death: BenchmarkRun['death'] = null;
+        while (!sim.isOver && sim.distanceTraveled < options.distanceCap) {
+            sim.step(dt);
+            if (sim.aiState) decisions[sim.aiState.action]++;
+            for (const e of sim.drainEvents()) {
+                if (e.type === 'laneChange') inputs.laneChanges++;
+                else if (e.type === 'jump') inputs.jumps++;
+                else if (e.type === 'roll') inputs.rolls++;
+                else if (e.type === 'fastFall') inputs.fastFalls++;
+                else if (e.type === 'shieldBreak') shieldSaves++;
+                else if (e.type === 'crash') death = { type: e.obstacle.type, situation: classifyDeath(sim, e.obstacle) };
+            }
+        }
+
+        const stats = sim.getRunStats();
+        const run: BenchmarkRun = {
+            seed,
+            distance: Math.floor(Math.min(stats.distance, options.distanceCap)), // the last tick overshoots the cap
+            survived: !sim.isOver,
+            score: stats.score,
+            coins: stats.coins,
+            ticks: stats.ticks,
+            death
+        };
+        runs.push(run);
+        onRun?.(run, i);
+    }
+
+    const deathsByType: Record<string, number> = Object.fromEntries(HAZARDS.map(t => [t, 0]));
+    const deathsBySituation = Object.fromEntries(DEATH_SITUATIONS.map(s => [s, 0])) as Record<DeathSituation, number>;
+    for (const run of runs) {
+        if (!run.death) continue;
+        deathsByType[run.death.type]++;
+        deathsBySituation[run.death.situation]++;
+    }
+
+    return {
+        format: BENCHMARK_FORMAT,
+        version: BENCHMARK_VERSION,
+        rulesVersion: RULES_VERSION,
+        chunkHash: chunkPackHash(DEFAULT_CHUNKS),
+        options: { ...options },
+        survived: runs.filter(r => r.survived).length,
+        distance: distribution(runs.map(r => r.distance)),
+        coins: distribution(runs.map(r => r.coins)),
+        deathsByType,
+        deathsBySituation,
+        decisions,
+        inputs,
+        shieldSaves,
+        elapsedMs: Date.now() - started,
+        runs
+    };
+}
+
+export function parseBenchmarkReport(json: string): BenchmarkReport {
+    const data = JSON.parse(json);
+    if (data?.format !== BENCHMARK_FORMAT) throw new Error('Not a benchmark report');
+    if (data.version !== BENCHMARK_VERSION) throw new Error(`Unsupported benchmark report version ${data.version}`);
+    return data as BenchmarkReport;
+}
+
+// --- TABLE ---
+// One row per headline number; with a baseline, its value and the change alongside
+export function formatBenchmarkReport(report: BenchmarkReport, baseline?: BenchmarkReport): string {
+    const o = report.options;
+    const lines = [
+        `AUTOPILOT BENCHMARK  bot ${o.bot}  difficulty ${o.difficulty}  ${o.runs} runs from seed ${o.firstSeed}  cap ${o.distanceCap}m  rules v${report.rulesVersion}`
+    ];
+    if (baseline) {
+        const b = baseline.options;
+        lines.push(`baseline             bot ${b.bot}  difficulty ${b.difficulty}  ${b.runs} runs from seed ${b.firstSeed}  cap ${b.distanceCap}m  rules v${baseline.rulesVersion}`);
+        if (baseline.rulesVersion !== report.rulesVersion || baseline.chunkHash !== report.chunkHash) {
+            lines.push('warning: the baseline ran under different rules or chunks, so the tracks differ');
+        }
+    }
+
+    const row = (label: string, value: (r: BenchmarkReport) => number, digits = 0) => {
+        const fmt = (v: number) => v.toFixed(digits);
+        const cells = [label.padEnd(24), fmt(value(report)).padStart(12)];
+        if (baseline) {
+            const diff = value(report) - value(baseline);
+            cells.push(fmt(value(baseline)).padStart(12), `${diff > 0 ? '+' : ''}${fmt(diff)}`.padStart(12));
+        }
+        lines.push(cells.join(''));
+    };
+    const section = (title: string) => {
+        lines.push('');
+        lines.push(title.padEnd(24) + 'value'.padStart(12) + (baseline ? 'baseline'.padStart(12) + 'change'.padStart(12) : ''));
+    };
+
+    section('SURVIVAL');
+    row('survived', r => r.survived);
+    row('survival rate %', r => 100 * r.survived / r.options.runs, 1);
+    section('DISTANCE (m)');
+    for (const key of ['min', 'p10', 'p25', 'median', 'p75', 'p90', 'max', 'mean'] as const) row(key, r => r.distance[key]);
+    section('COINS PER RUN');
+    for (const key of ['median', 'mean', 'max'] as const) row(key, r => r.coins[key], key === 'mean' ? 1 : 0);
+    section('DEATHS BY OBSTACLE');
+    for (const type of HAZARDS) row(type, r => r.deathsByType[type] ?? 0);
+    section('DEATHS BY SITUATION');
+    for (const s of DEATH_SITUATIONS) row(s, r => r.deathsBySituation[s]);
+    row('shield saves', r => r.shieldSaves);
+    section('DECISIONS (ticks)');
+    for (const d of DECISIONS) row(d, r => r.decisions[d]);
+    section('INPUTS');
+    row('lane changes', r => r.inputs.laneChanges);
+    row('jumps', r => r.inputs.jumps);
+    row('rolls', r => r.inputs.rolls);
+    row('fast-falls', r => r.inputs.fastFalls);
+    section('TIME');
+    row('ms per run', r => r.elapsedMs / r.options.runs);
+
+    return lines.join('\n');
+}
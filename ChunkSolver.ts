@@ -0,0 +1,248 @@
+import { CollisionType, GameConfig } from './types';
+import { ChunkDef, CHUNK_CELLS, validateChunk } from './Chunks';
+import { minSpeedForDifficulty } from './TrackDirector';
+import {
+    PLAYER_BASE_Y, SPAWN_Z, HITBOX_DX, HITBOX_DZ, JUMP_CLEARANCE_Y, LATERAL_RATE, damp, resolveConfig
+} from './Simulation';
+
+const CHECK_SPEEDS = 5; // samples across the speed range a chunk can appear at
+const X_STEP = 0.05; // lateral positions are tracked to this precision
+
+export interface ChunkSolveResult {
+    speed: number;
+    solvable: boolean;
+    failRow: number | null; // first row nothing gets past
+}
+
+export interface ChunkProblem {
+    row: number | null; // null for problems with the chunk as a whole
+    message: string;
+}
+
+interface Hazard {
+    row: number;
+    lane: number;
+    offset: number; // distance behind the first row
+    type: CollisionType;
+}
+
+// Vertical phases as bit sets: bit 0 on the ground, then one bit per tick of a jump, then one per tick of a roll
+interface PhaseModel {
+    words: number;
+    ticks: number; // longest a phase can last
+    step: (from: Uint32Array, at: number, to: Uint32Array) => void; // every phase one tick later, any input
+    survives: Record<string, Uint32Array>; // phases that live through a hazard of each type
+}
+
+// Lateral states are (target lane, x on an X_STEP grid), stepped the way GameSimulation moves the player
+interface LateralModel {
+    count: number;
+    ticks: number; // longest a lane change takes to settle
+    id: (lane: number, x: number) => number;
+    footprint: Int8Array; // lane whose hitbox the player is in, 2 for none
+    transitions: number[][]; // where staying, moving left and moving right lead
+}
+
+function phaseModel(config: GameConfig, dt: number): PhaseModel {
+    // Jump arc and roll length, integrated exactly as GameSimulation.updatePlayer does. Buffered presses,
+    // fast-falls and the post-roll grace only ever add ways through, so leaving them out keeps the check conservative.
+    const jumpY: number[] = [];
+    for (let y = PLAYER_BASE_Y, vy = config.jumpForce; ;) {
+        y += vy * dt;
+        vy -= config.gravity * dt;
+        if (y <= PLAYER_BASE_Y) break;
+        jumpY.push(y);
+    }
+    let rollTicks = 0;
+    for (let timer = config.rollDuration; timer > 0; rollTicks++) timer -= dt;
+
+    const jumps = jumpY.length;
+    const rolls = Math.max(0, rollTicks - 1); // the tick the timer runs out is already back on the ground
+    const words = Math.ceil((1 + jumps + rolls) / 32);
+    const mask = (test: (v: number) => boolean) => {
+        const m = new Uint32Array(words);
+        for (let v = 0; v <= jumps + rolls; v++) if (test(v)) m[v >> 5] |= 1 << (v & 31);
+        return m;
+    };
+    const isJump = (v: number) => v >= 1 && v <= jumps;
+    const isRoll = (v: number) => v > jumps;
+
+    const advance = mask(v => (isJump(v) && v < jumps) || (isRoll(v) && v < jumps + rolls));
+    const lands = mask(v => v === 0 || v === jumps || (rolls > 0 && v === jumps + rolls));
+    const canJump = mask(v => v === 0 || isRoll(v)); // jumping cancels a roll
+    const any = (s: Uint32Array, at: number, m: Uint32Array) => {
+        for (let w = 0; w < words; w++) if (s[at + w] & m[w]) return true;
+        return false;
+    };
+
+    const step = (from: Uint32Array, at: number, to: Uint32Array) => {
+        let carry = 0;
+        for (let w = 0; w < words; w++) {
+            const moving = from[at + w] & advance[w];
+            to[w] = (moving << 1) | carry;
+            carry = moving >>> 31;
+        }
+        if (any(from, at, lands)) to[0] |= 1;
+        if (jumps > 0 && any(from, at, canJump)) to[0] |= 1 << 1;
+        if (rolls > 0 && from[at] & 1) to[(jumps + 1) >> 5] |= 1 << ((jumps + 1) & 31);
+    };
+
+    return {
+        words,
+        ticks: Math.max(jumps + 1, rollTicks),
+        step,
+        survives: {
+            [CollisionType.SOLID]: mask(() => false),
+            [CollisionType.JUMP]: mask(v => isJump(v) && jumpY[v - 1] > JUMP_CLEARANCE_Y),
+            [CollisionType.DUCK]: mask(isRoll)
+        }
+    };
+}
+
+function lateralModel(config: GameConfig, dt: number): LateralModel {
+    const width = config.laneWidth;
+    const rate = damp(LATERAL_RATE, dt);
+    const laneCells = Math.round(width / X_STEP); // grid cells from one lane centre to the next
+    const row = 4 * laneCells + 1;
+    const id = (lane: number, cell: number) => (lane + 1) * row + cell + 2 * laneCells;
+
+    // One tick of GameSimulation.updatePlayer's lateral smoothing; always moves at least a cell so it can't stall
+    const slide = (cell: number, lane: number) => {
+        const x = cell * X_STEP;
+        const targetX = lane * width;
+        let next = x + (targetX - x) * rate;
+        if (Math.abs(next - targetX) < 0.05) next = targetX;
+        const nextCell = Math.round(next / X_STEP);
+        return nextCell === cell && cell !== lane * laneCells ? cell + Math.sign(lane * laneCells - cell) : nextCell;
+    };
+
+    const count = 3 * row;
+    const footprint = new Int8Array(count).fill(2);
+    const transitions: number[][] = [];
+    for (let lane = -1; lane <= 1; lane++) {
+        for (let cell = -2 * laneCells; cell <= 2 * laneCells; cell++) {
+            const inLane = [-1, 0, 1].find(l => Math.abs(l * width - cell * X_STEP) < HITBOX_DX);
+            if (inLane !== undefined) footprint[id(lane, cell)] = inLane;
+            // Steering again is only allowed once the player has reached the lane they were heading for:
+            // flicking left/right every tick keeps the player between lanes, clear of every hitbox,
+            // and no layout should count as passable only that way
+            const targets = inLane === lane ? [lane, lane - 1, lane + 1].filter(l => l >= -1 && l <= 1) : [lane];
+            transitions[id(lane, cell)] = targets.map(l => id(l, slide(cell, l)));
+        }
+    }
+
+    let ticks = 0;
+    for (let cell = -laneCells; cell !== laneCells; ticks++) cell = slide(cell, 1);
+    return { count, ticks, id: (lane, x) => id(lane, Math.round(x / X_STEP)), footprint, transitions };
+}
+
+// Exhaustive search over every input the player could give on every tick, at a constant speed, using the
+// simulation's own movement and collision rules. For each lateral state the reachable vertical phases are kept
+// as a bit set, so a tick costs a few thousand word operations. Quiet stretches between rows are skipped, since
+// by their end the player can be anywhere. Power-ups are ignored: the layout has to be fair without them.
+export function solveChunk(chunk: ChunkDef, config: GameConfig, speed: number): ChunkSolveResult {
+    const dt = 1 / config.simulationRate;
+    const minGap = config.minGapBase + speed * config.minGapSpeedFactor;
+    const phases = phaseModel(config, dt);
+    const lateral = lateralModel(config, dt);
+    const words = phases.words;
+
+    // Any state can be back to standing still in any lane within phases.ticks + lateral.ticks, and no state
+    // remembers more than that, so a gap twice as long is enough to forget how the player got there
+    const quiet = 2 * (phases.ticks + lateral.ticks);
+
+    const hazards: Hazard[] = [];
+    let offset = 0;
+    chunk.rows.forEach((row, i) => {
+        if (i > 0) offset += minGap * (row.spacing ?? 1);
+        for (let lane = -1; lane <= 1; lane++) {
+            const type = CHUNK_CELLS[row.lanes[lane + 1]];
+            if (type === CollisionType.SOLID || type === CollisionType.JUMP || type === CollisionType.DUCK) {
+                hazards.push({ row: i, lane, offset, type });
+            }
+        }
+    });
+    // Rows spawn at SPAWN_Z at the end of the first tick, then move speed * dt per tick
+    const step = speed * dt;
+    const zAt = (h: Hazard, tick: number) => SPAWN_Z - h.offset + step * (tick - 1);
+    const firstTick = (h: Hazard) => Math.floor((-HITBOX_DZ - SPAWN_Z + h.offset) / step) + 1;
+    const lastTick = Math.ceil((HITBOX_DZ - SPAWN_Z + offset) / step) + 1;
+
+    let states = new Uint32Array(lateral.count * words);
+    let next = new Uint32Array(lateral.count * words);
+    let live = [lateral.id(0, 0)]; // lateral states with any phase set
+    states[live[0] * words] = 1;
+    const after = new Uint32Array(words);
+    const unharmed = new Uint32Array(words).fill(0xffffffff);
+
+    for (let tick = 1; tick <= lastTick; tick++) {
+        const upcoming = hazards.filter(h => zAt(h, tick) < HITBOX_DZ);
+        const nextStart = upcoming.length ? Math.min(...upcoming.map(firstTick)) : lastTick;
+        if (nextStart - tick > quiet) {
+            live.forEach(id => states.fill(0, id * words, (id + 1) * words));
+            live = [-1, 0, 1].map(lane => lateral.id(lane, lane * config.laneWidth));
+            live.forEach(id => states[id * words] = 1);
+            tick = nextStart - quiet;
+        }
+
+        // Per lane, the phases that survive everything overlapping the player this tick
+        const active = upcoming.filter(h => zAt(h, tick) > -HITBOX_DZ);
+        const laneMask = [unharmed, unharmed, unharmed, unharmed];
+        for (const h of active) {
+            const survives = phases.survives[h.type];
+            laneMask[h.lane + 1] = laneMask[h.lane + 1].map((m, w) => m & survives[w]);
+        }
+
+        const reached = new Set<number>();
+        for (const id of live) {
+            phases.step(states, id * words, after);
+            states.fill(0, id * words, (id + 1) * words);
+
+            for (const to of lateral.transitions[id]) {
+                const mask = laneMask[lateral.footprint[to] + 1];
+                let any = 0;
+                for (let w = 0; w < words; w++) {
+                    const bits = after[w] & mask[w];
+                    next[to * words + w] |= bits;
+                    any |= bits;
+                }
+                if (any) reached.add(to);
+            }
+        }
+
+        live = [...reached];
+        if (live.length === 0) {
+            return { speed, solvable: false, failRow: Math.min(...active.map(h => h.row)) };
+        }
+        [states, next] = [next, states];
+    }
+    return { speed, solvable: true, failRow: null };
+}
+
+// Speeds the chunk is checked at: everywhere the director may offer it, plus any the caller cares about
+export function checkSpeeds(chunk: ChunkDef, config: GameConfig, extra: number[] = []): number[] {
+    const min = minSpeedForDifficulty(config, chunk.difficulty);
+    const speeds: number[] = [];
+    for (let i = 0; i < CHECK_SPEEDS; i++) speeds.push(min + (config.maxSpeed - min) * i / (CHECK_SPEEDS - 1));
+    return [...extra, ...speeds];
+}
+
+// Everything that would make the chunk unfair or unloadable; empty means it's safe to export
+export function checkChunk(chunk: ChunkDef, config: GameConfig, extraSpeeds: number[] = []): ChunkProblem[] {
+    try {
+        validateChunk(chunk);
+    } catch (e) {
+        const match = /row (\d+)/.exec((e as Error).message);
+        return [{ row: match ? Number(match[1]) : null, message: (e as Error).message }];
+    }
+
+    for (const speed of checkSpeeds(chunk, config, extraSpeeds)) {
+        // Courses run at a constant speed, which also has to make a valid config
+        const runConfig = resolveConfig({ startSpeed: speed, maxSpeed: Math.max(speed, config.maxSpeed), speedIncrement: 0 }, config);
+        const result = solveChunk(chunk, runConfig, speed);
+        if (!result.solvable) {
+            return [{ row: result.failRow, message: `row ${result.failRow}: can't be passed at speed ${Math.round(speed)}` }];
+        }
+    }
+    return [];
+}
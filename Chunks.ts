@@ -0,0 +1,133 @@
+import { CollisionType } from './types';
+import { hashSeed } from './Random';
+import defaultPackJson from './chunks/default.json';
+
+export const CHUNK_FORMAT = 'neon-runner-chunks';
+export const CHUNK_VERSION = 1;
+export const MAX_CHUNK_DIFFICULTY = 5;
+
+// One character per lane, left to right:
+//   S solid wall, J jump barrier, D duck drone, C coin, P random power-up, . empty
+export const CHUNK_CELLS: Record<string, CollisionType | null> = {
+    S: CollisionType.SOLID,
+    J: CollisionType.JUMP,
+    D: CollisionType.DUCK,
+    C: CollisionType.COIN,
+    P: CollisionType.POWERUP,
+    '.': null
+};
+
+export interface ChunkRow {
+    lanes: string; // e.g. "S.J"
+    spacing?: number; // gap before this row as a multiple of the normal row gap; default 1, 0 = same z as the previous row
+    height?: number; // coins in this row float at this height and must be reached (arcs over barriers)
+}
+
+export interface ChunkDef {
+    id: string;
+    name: string;
+    difficulty: number; // 1 (gentle) to MAX_CHUNK_DIFFICULTY; only offered once the run is fast enough
+    weight: number; // relative pick chance among eligible chunks
+    rows: ChunkRow[]; // nearest row first
+}
+
+export interface ChunkPack {
+    format: typeof CHUNK_FORMAT;
+    version: number;
+    chunks: ChunkDef[];
+}
+
+// A lane you can survive in: everything except a solid wall
+export const isPassable = (cell: string) => cell !== 'S';
+
+export function passableLanes(row: ChunkRow): number[] {
+    const lanes: number[] = [];
+    for (let i = 0; i < 3; i++) if (isPassable(row.lanes[i])) lanes.push(i - 1);
+    return lanes;
+}
+
+function fail(path: string, message: string): never {
+    throw new Error(`${path}: ${message}`);
+}
+
+function validateRow(row: any, path: string) {
+    if (!row || typeof row !== 'object') fail(path, 'row must be an object');
+    if (typeof row.lanes !== 'string' || row.lanes.length !== 3) fail(path, 'lanes must be a 3-character string');
+    for (const c of row.lanes) if (!(c in CHUNK_CELLS)) fail(path, `unknown cell "${c}" (use ${Object.keys(CHUNK_CELLS).join(' ')})`);
+    if (row.spacing !== undefined && !(typeof row.spacing === 'number' && row.spacing >= 0 && row.spacing <= 4)) {
+        fail(path, 'spacing must be a number between 0 and 4');
+    }
+    if (row.height !== undefined) {
+        if (!(typeof row.height === 'number' && row.height >= 0 && row.height <= 6)) fail(path, 'height must be a number between 0 and 6');
+        if (!row.lanes.includes('C')) fail(path, 'height only applies to rows with coins');
+    }
+    if (passableLanes(row).length === 0) fail(path, 'row is walled off in every lane');
+}
+
+// Structural checks plus the cheap solvability rule: every row must be reachable from the one before it by
+// at most one lane change. Deeper checks (timing at speed) belong to the editor.
+export function validateChunk(chunk: any, path: string = 'chunk') {
+    if (!chunk || typeof chunk !== 'object') fail(path, 'chunk must be an object');
+    if (typeof chunk.id !== 'string' || !chunk.id) fail(path, 'id is required');
+    path = `${path} "${chunk.id}"`;
+    if (typeof chunk.name !== 'string') fail(path, 'name is required');
+    if (!Number.isInteger(chunk.difficulty) || chunk.difficulty < 1 || chunk.difficulty > MAX_CHUNK_DIFFICULTY) {
+        fail(path, `difficulty must be an integer from 1 to ${MAX_CHUNK_DIFFICULTY}`);
+    }
+    if (!(typeof chunk.weight === 'number' && chunk.weight > 0)) fail(path, 'weight must be a positive number');
+    if (!Array.isArray(chunk.rows) || chunk.rows.length === 0) fail(path, 'rows must be a non-empty array');
+
+    chunk.rows.forEach((row: any, i: number) => validateRow(row, `${path} row ${i}`));
+    for (let i = 1; i < chunk.rows.length; i++) {
+        const from = passableLanes(chunk.rows[i - 1]);
+        const reachable = passableLanes(chunk.rows[i]).some(l => from.some(f => Math.abs(f - l) <= 1));
+        if (!reachable) fail(`${path} row ${i}`, 'no open lane is reachable from the previous row');
+    }
+}
+
+export function validateChunkPack(data: any): ChunkPack {
+    if (!data || data.format !== CHUNK_FORMAT) throw new Error('Not a Neon Runner chunk pack');
+    if (data.version !== CHUNK_VERSION) throw new Error(`Unsupported chunk pack version ${data.version} (expected ${CHUNK_VERSION})`);
+    if (!Array.isArray(data.chunks)) throw new Error('Chunk pack has no chunk list');
+
+    const ids = new Set<string>();
+    data.chunks.forEach((chunk: any, i: number) => {
+        validateChunk(chunk, `chunk ${i}`);
+        if (ids.has(chunk.id)) fail(`chunk ${i}`, `duplicate id "${chunk.id}"`);
+        ids.add(chunk.id);
+    });
+    return data as ChunkPack;
+}
+
+export function parseChunkPack(json: string): ChunkPack {
+    let data: any;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error('Chunk pack is not valid JSON');
+    }
+    return validateChunkPack(data);
+}
+
+export function serializeChunkPack(chunks: ChunkDef[]): string {
+    const pack: ChunkPack = { format: CHUNK_FORMAT, version: CHUNK_VERSION, chunks };
+    return JSON.stringify(pack, null, 2);
+}
+
+export function downloadChunkPack(chunks: ChunkDef[], name: string) {
+    const blob = new Blob([serializeChunkPack(chunks)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `neon-runner-chunks-${name}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+}
+
+// Identifies a chunk set in replays: the same seed plays differently with different patterns
+export function chunkPackHash(chunks: ChunkDef[]): number {
+    return hashSeed(JSON.stringify(chunks));
+}
+
+// Patterns shipped with the game; edit chunks/default.json to add more
+export const DEFAULT_CHUNKS: ChunkDef[] = validateChunkPack(defaultPackJson).chunks;
@@ -0,0 +1,67 @@
+import { GameConfig } from './types';
+
+const STORAGE_KEY = 'neon-runner.difficulty';
+
+export type Difficulty = 'casual' | 'normal' | 'hard' | 'insane';
+
+export interface DifficultyPreset {
+    label: string;
+    description: string;
+    config: Partial<GameConfig>; // applied over DEFAULT_CONFIG
+}
+
+export const DIFFICULTIES: Record<Difficulty, DifficultyPreset> = {
+    casual: {
+        label: 'CASUAL',
+        description: 'Slower, sparser rows and fewer walls',
+        config: {
+            startSpeed: 28, maxSpeed: 110, speedIncrement: 0.45,
+            obstacleDensity: 0.6, minGapBase: 65, minGapSpeedFactor: 0.6,
+            obstacleMix: { jump: 0.35, duck: 0.35, solid: 0.3 }, chunkChance: 0.08,
+            inputBuffer: 0.2, rollGrace: 0.15
+        }
+    },
+    normal: {
+        label: 'NORMAL',
+        description: 'The standard run',
+        config: {}
+    },
+    hard: {
+        label: 'HARD',
+        description: 'Faster ramp, tighter rows, more walls',
+        config: {
+            startSpeed: 44, maxSpeed: 200, speedIncrement: 1.0,
+            obstacleDensity: 0.85, minGapBase: 42, minGapSpeedFactor: 0.45,
+            obstacleMix: { jump: 0.2, duck: 0.2, solid: 0.6 }, chunkChance: 0.18
+        }
+    },
+    insane: {
+        label: 'INSANE',
+        description: 'Near top speed from the start',
+        config: {
+            startSpeed: 60, maxSpeed: 240, speedIncrement: 1.5,
+            obstacleDensity: 0.9, minGapBase: 36, minGapSpeedFactor: 0.4,
+            obstacleMix: { jump: 0.2, duck: 0.2, solid: 0.6 }, chunkChance: 0.22,
+            inputBuffer: 0.1, rollGrace: 0.05
+        }
+    }
+};
+
+export const DIFFICULTY_IDS = Object.keys(DIFFICULTIES) as Difficulty[];
+
+export function loadDifficulty(): Difficulty {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        return raw && raw in DIFFICULTIES ? raw as Difficulty : 'normal';
+    } catch {
+        return 'normal';
+    }
+}
+
+export function saveDifficulty(difficulty: Difficulty) {
+    try {
+        localStorage.setItem(STORAGE_KEY, difficulty);
+    } catch {
+        // ignore
+    }
+}
@@ -0,0 +1,175 @@
+import { ObstacleMix } from './types';
+import { SeededRandom } from './Random';
+
+export type DistrictId = 'downtown' | 'docks' | 'slums' | 'spires';
+
+// Paints one window facade onto a 256x512 canvas already filled with the district's wall colour
+export type FacadePainter = (ctx: CanvasRenderingContext2D, lit: string, rng: SeededRandom) => void;
+
+export interface DistrictProps {
+    lamps: number; // chance per segment
+    trees: number;
+    buildings: number;
+    containers: number; // stacks on lots without a building
+    antennas: number; // chance per building
+}
+
+export interface District {
+    id: DistrictId;
+    label: string;
+    sky: number; // background and fog colour
+    fogScale: number; // multiplies GameConfig.fogDensity
+    ambient: number;
+    sun: number;
+    road: number;
+    laneLine: number;
+    sidewalk: number;
+    building: number;
+    wall: string; // unlit facade
+    windows: string[]; // lit window colour of each facade variant
+    paintFacade: FacadePainter;
+    heights: [number, number]; // building height range
+    props: DistrictProps;
+    lampColor: number;
+    foliage: number;
+    containerColors: number[];
+    obstacleWeights: ObstacleMix; // multiplies GameConfig.obstacleMix in procedural rows
+}
+
+export const DISTRICT_TRANSITION = 150; // metres at the end of a district that blend into the next
+
+// --- FACADES ---
+const gridFacade: FacadePainter = (ctx, lit, rng) => {
+    for (let y = 0; y < 512; y += 20) {
+        if (rng.next() > 0.8) continue;
+        for (let x = 10; x < 246; x += 30) {
+            const on = rng.next() > 0.4;
+            ctx.fillStyle = on ? lit : '#111122';
+            ctx.globalAlpha = on ? 0.8 + rng.next() * 0.2 : 1;
+            ctx.fillRect(x, y, 20, 12);
+        }
+    }
+};
+
+// Warehouses: corrugated ribs with the odd strip of work lights
+const stripFacade: FacadePainter = (ctx, lit, rng) => {
+    ctx.fillStyle = '#000000';
+    ctx.globalAlpha = 0.4;
+    for (let x = 0; x < 256; x += 8) ctx.fillRect(x, 0, 2, 512);
+    ctx.fillStyle = lit;
+    for (let y = 24; y < 512; y += 64) {
+        if (rng.next() < 0.35) continue;
+        ctx.globalAlpha = 0.3 + rng.next() * 0.4;
+        ctx.fillRect(0, y, 256, 6);
+    }
+};
+
+// Small irregular windows, mostly dark
+const patchFacade: FacadePainter = (ctx, lit, rng) => {
+    for (let y = 8; y < 512; y += 26) {
+        for (let x = 8; x < 240; x += 34) {
+            if (rng.next() < 0.3) continue;
+            const on = rng.next() < 0.3;
+            ctx.fillStyle = on ? lit : '#0c0806';
+            ctx.globalAlpha = on ? 0.6 + rng.next() * 0.4 : 1;
+            ctx.fillRect(x + rng.next() * 8, y + rng.next() * 6, 12 + rng.next() * 8, 12);
+        }
+    }
+};
+
+// Glass curtain wall: dim panels between mullions with whole floors lit
+const curtainFacade: FacadePainter = (ctx, lit, rng) => {
+    ctx.fillStyle = lit;
+    for (let y = 0; y < 512; y += 16) {
+        const floor = rng.next() < 0.15 ? 0.9 : 0.12 + rng.next() * 0.2;
+        for (let x = 0; x < 256; x += 16) {
+            ctx.globalAlpha = floor;
+            ctx.fillRect(x + 1, y + 1, 14, 14);
+        }
+    }
+};
+
+// In the order they come up during a run
+export const DISTRICTS: District[] = [
+    {
+        id: 'downtown',
+        label: 'NEON DOWNTOWN',
+        sky: 0x020205, fogScale: 1, ambient: 0x404060, sun: 0xaaccff,
+        road: 0x111111, laneLine: 0x00ffff, sidewalk: 0x333333,
+        building: 0x05050c, wall: '#050510', windows: ['#00ffff', '#ff00ff', '#ffffff'],
+        paintFacade: gridFacade,
+        heights: [15, 50],
+        props: { lamps: 0.33, trees: 0.5, buildings: 0.9, containers: 0, antennas: 0.5 },
+        lampColor: 0xffaa00, foliage: 0x2d4c1e, containerColors: [],
+        obstacleWeights: { jump: 1, duck: 1, solid: 1 }
+    },
+    {
+        id: 'docks',
+        label: 'INDUSTRIAL DOCKS',
+        sky: 0x060403, fogScale: 1.3, ambient: 0x504030, sun: 0xffc080,
+        road: 0x161310, laneLine: 0xffaa00, sidewalk: 0x3a3530,
+        building: 0x0c0a08, wall: '#0a0806', windows: ['#ffaa33', '#ff7722', '#ffdd88'],
+        paintFacade: stripFacade,
+        heights: [10, 22],
+        props: { lamps: 0.6, trees: 0.05, buildings: 0.5, containers: 0.8, antennas: 0.2 },
+        lampColor: 0xff8800, foliage: 0x3a3a20, containerColors: [0x7a2a18, 0x1a4a6a, 0x6a6a20, 0x2a5a2a],
+        obstacleWeights: { jump: 1.6, duck: 0.6, solid: 1 }
+    },
+    {
+        id: 'slums',
+        label: 'RAIN-SOAKED SLUMS',
+        sky: 0x030606, fogScale: 1.7, ambient: 0x304040, sun: 0x88aaaa,
+        road: 0x0c1012, laneLine: 0x33ff88, sidewalk: 0x262b2b,
+        building: 0x070909, wall: '#070909', windows: ['#ffcc55', '#ff3344', '#66ff99'],
+        paintFacade: patchFacade,
+        heights: [8, 26],
+        props: { lamps: 0.2, trees: 0.15, buildings: 1, containers: 0, antennas: 0.7 },
+        lampColor: 0x66ffaa, foliage: 0x1e2b1a, containerColors: [],
+        obstacleWeights: { jump: 0.8, duck: 1.6, solid: 0.8 }
+    },
+    {
+        id: 'spires',
+        label: 'CORPORATE SPIRES',
+        sky: 0x02030a, fogScale: 0.7, ambient: 0x5060a0, sun: 0xddeeff,
+        road: 0x15161c, laneLine: 0xffffff, sidewalk: 0x4a4c55,
+        building: 0x0a0c14, wall: '#060812', windows: ['#aaddff', '#ffe8aa', '#ffffff'],
+        paintFacade: curtainFacade,
+        heights: [40, 90],
+        props: { lamps: 0.5, trees: 0.8, buildings: 0.95, containers: 0, antennas: 0.9 },
+        lampColor: 0xddeeff, foliage: 0x3c6e2a, containerColors: [],
+        obstacleWeights: { jump: 0.8, duck: 0.8, solid: 1.4 }
+    }
+];
+
+export interface DistrictBlend {
+    index: number; // how many districts into the run
+    from: District;
+    to: District;
+    t: number; // 0 inside `from`, rising to 1 across the transition into `to`
+}
+
+// Districts rotate every `length` metres; the last DISTRICT_TRANSITION metres of each fade into the next
+export function districtBlend(distance: number, length: number): DistrictBlend {
+    const index = Math.max(0, Math.floor(distance / length));
+    const transition = Math.min(DISTRICT_TRANSITION, length / 2);
+    const x = Math.min(1, Math.max(0, (distance - index * length - (length - transition)) / transition));
+    return {
+        index,
+        from: DISTRICTS[index % DISTRICTS.length],
+        to: DISTRICTS[(index + 1) % DISTRICTS.length],
+        t: x * x * (3 - 2 * x)
+    };
+}
+
+// The district a point belongs to, switching halfway through the transition
+export function districtAt(distance: number, length: number): District {
+    const blend = districtBlend(distance, length);
+    return blend.t < 0.5 ? blend.from : blend.to;
+}
+
+// Obstacle weights for procedural rows at this distance
+export function districtObstacleMix(mix: ObstacleMix, distance: number, length: number): ObstacleMix {
+    const { from, to, t } = districtBlend(distance, length);
+    const weight = (key: keyof ObstacleMix) => mix[key] * (from.obstacleWeights[key] * (1 - t) + to.obstacleWeights[key] * t);
+    return { jump: weight('jump'), duck: weight('duck'), solid: weight('solid') };
+}
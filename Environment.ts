@@ -0,0 +1,223 @@
+import { AIState, CollisionType, GameConfig } from './types';
+import type { AutopilotController, AutopilotDecision, AutopilotObservation } from './Autopilot';
+import { observe } from './Autopilot';
+import { GameSimulation, HITBOX_DZ, PLAYER_BASE_Y, resolveConfig } from './Simulation';
+
+// Gym-style wrapper around GameSimulation for training agents headlessly: reset(seed), then step(action)
+// until done. The agent drives through the autopilot path, so the physics match a policy playing in-game.
+
+// --- ACTIONS ---
+export type EnvAction = 'noop' | 'left' | 'right' | 'jump' | 'roll';
+export const ENV_ACTIONS: EnvAction[] = ['noop', 'left', 'right', 'jump', 'roll']; // index = discrete action
+
+// The decision a discrete action stands for; 'noop' holds the current lane
+export function actionDecision(action: EnvAction, obs: AutopilotObservation): Pick<AutopilotDecision, 'lane' | 'jump' | 'roll'> {
+    const lane = obs.player.lane + (action === 'left' ? -1 : action === 'right' ? 1 : 0);
+    return { lane: Math.max(-1, Math.min(1, lane)), jump: action === 'jump', roll: action === 'roll' };
+}
+
+export const ACTION_REPORT: Record<EnvAction, AIState['action']> = { noop: 'RUN', left: 'DODGE', right: 'DODGE', jump: 'JUMP', roll: 'DUCK' };
+
+// --- OBSERVATIONS ---
+// 'lanes': per lane what LaneAnalysis works out (nearest threat and its type, first wall, side blocked, nearest pickup).
+// 'grid': occupancy of [solid, jump, duck, pickup] x lane x GRID_ROWS cells ahead, channel-major.
+// Both end with the same PLAYER_FEATURES. Distances are in units of OBSERVATION_RANGE and clamp at 1; height and
+// time to land are fractions of a full jump's apex and airtime under the config, so every value is within [-1, 1].
+export type ObservationEncoding = 'lanes' | 'grid';
+export const OBSERVATION_ENCODINGS: ObservationEncoding[] = ['lanes', 'grid'];
+
+export const OBSERVATION_RANGE = 200; // metres
+export const GRID_ROWS = 16;
+const GRID_CELL = OBSERVATION_RANGE / GRID_ROWS;
+const LANE_FEATURES = 7;
+const PLAYER_FEATURES = 8;
+const SIDE_WINDOW: [number, number] = [-5, 4]; // distances where a hazard alongside blocks a lane change
+
+const HAZARD_CHANNEL: Partial<Record<CollisionType, number>> = {
+    [CollisionType.SOLID]: 0, [CollisionType.JUMP]: 1, [CollisionType.DUCK]: 2, [CollisionType.COIN]: 3, [CollisionType.POWERUP]: 3
+};
+
+export function observationSize(encoding: ObservationEncoding): number {
+    return (encoding === 'lanes' ? 3 * LANE_FEATURES : 4 * 3 * GRID_ROWS) + PLAYER_FEATURES;
+}
+
+export function encodeObservation(obs: AutopilotObservation, encoding: ObservationEncoding): number[] {
+    const out: number[] = [];
+    const scaled = (d: number) => Math.min(1, Math.max(0, d) / OBSERVATION_RANGE);
+    const isPickup = (t: CollisionType) => t === CollisionType.COIN || t === CollisionType.POWERUP;
+
+    if (encoding === 'lanes') {
+        for (const lane of obs.lanes) {
+            const ahead = lane.obstacles.filter(o => o.distance > -HITBOX_DZ);
+            const threat = ahead.find(o => !isPickup(o.type));
+            const wall = ahead.find(o => o.type === CollisionType.SOLID);
+            const pickup = ahead.find(o => isPickup(o.type));
+            const blocked = lane.obstacles.some(o => !isPickup(o.type) && o.distance > SIDE_WINDOW[0] && o.distance < SIDE_WINDOW[1]);
+            out.push(
+                threat ? scaled(threat.distance) : 1,
+                threat?.type === CollisionType.SOLID ? 1 : 0,
+                threat?.type === CollisionType.JUMP ? 1 : 0,
+                threat?.type === CollisionType.DUCK ? 1 : 0,
+                wall ? scaled(wall.distance) : 1,
+                blocked ? 1 : 0,
+                pickup ? scaled(pickup.distance) : 1
+            );
+        }
+    } else {
+        const grid = new Array(4 * 3 * GRID_ROWS).fill(0);
+        for (const lane of obs.lanes) {
+            for (const o of lane.obstacles) {
+                const row = Math.floor(Math.max(0, o.distance) / GRID_CELL);
+                if (o.distance <= -HITBOX_DZ || row >= GRID_ROWS) continue;
+                grid[(HAZARD_CHANNEL[o.type]! * 3 + lane.lane + 1) * GRID_ROWS + row] = 1;
+            }
+        }
+        out.push(...grid);
+    }
+
+    const p = obs.player;
+    const config = obs.config;
+    const unit = (v: number) => Math.min(1, Math.max(0, v));
+    const apex = config.jumpForce * config.jumpForce / (2 * config.gravity);
+    const airtime = 2 * config.jumpForce / config.gravity;
+    out.push(
+        p.lane,
+        p.x / config.laneWidth,
+        unit((p.y - PLAYER_BASE_Y) / apex),
+        p.isJumping ? 1 : 0,
+        p.isRolling ? 1 : 0,
+        p.isRolling ? unit(p.rollTimer / config.rollDuration) : 0,
+        unit(obs.speed / config.maxSpeed),
+        unit(obs.timeToLand / airtime)
+    );
+    return out;
+}
+
+// --- REWARDS ---
+export interface RewardWeights {
+    distance: number; // per metre travelled
+    coins: number; // per coin collected
+    survival: number; // per step that doesn't end in a crash
+    crash: number; // once, on crashing
+}
+
+export const DEFAULT_REWARDS: RewardWeights = { distance: 0.01, coins: 1, survival: 0, crash: -10 };
+
+// --- ENVIRONMENT ---
+export interface EnvOptions {
+    config: Partial<GameConfig>; // over DEFAULT_CONFIG, e.g. a difficulty preset's config
+    encoding: ObservationEncoding;
+    rewards: Partial<RewardWeights>;
+    frameSkip: number; // simulation ticks per step; the action applies on the first
+    maxSteps: number; // episodes are cut off (truncated) after this many steps; 0 for no limit
+}
+
+export const DEFAULT_ENV_OPTIONS: EnvOptions = { config: {}, encoding: 'lanes', rewards: {}, frameSkip: 4, maxSteps: 0 };
+
+export interface EnvInfo {
+    truncated: boolean; // ended by maxSteps rather than a crash
+    crash: CollisionType | null;
+    distance: number;
+    coins: number;
+    score: number;
+    tick: number;
+}
+
+export interface EnvStep {
+    observation: number[];
+    reward: number;
+    done: boolean;
+    info: EnvInfo;
+}
+
+// Feeds the environment's chosen action to the simulation as an autopilot decision
+class AgentController implements AutopilotController {
+    public action: EnvAction = 'noop';
+
+    public reset() {
+        this.action = 'noop';
+    }
+
+    public decide(obs: AutopilotObservation): AutopilotDecision {
+        const action = this.action;
+        this.action = 'noop'; // presses apply once; the rest of the step just holds the lane
+        return {
+            ...actionDecision(action, obs),
+            report: { action: ACTION_REPORT[action], confidence: 100, nearestThreatDist: 9999, visionRange: Math.floor(obs.visibility), laneScores: [0, 0, 0], status: 'AGENT' }
+        };
+    }
+}
+
+export class GameEnvironment {
+    public readonly options: EnvOptions;
+    public readonly config: GameConfig;
+    public readonly rewards: RewardWeights;
+    public readonly actionSpace = { n: ENV_ACTIONS.length, actions: ENV_ACTIONS };
+    public readonly observationSpace: { shape: [number]; low: number; high: number; encoding: ObservationEncoding };
+
+    private sim: GameSimulation;
+    private agent = new AgentController();
+    private steps = 0;
+    private started = false;
+    private done = false;
+
+    constructor(options: Partial<EnvOptions> = {}) {
+        this.options = { ...DEFAULT_ENV_OPTIONS, ...options };
+        if (!OBSERVATION_ENCODINGS.includes(this.options.encoding)) throw new Error(`Unknown observation encoding "${this.options.encoding}"`);
+        if (!(Number.isInteger(this.options.frameSkip) && this.options.frameSkip >= 1)) throw new Error('frameSkip must be a positive integer');
+        if (!(this.options.maxSteps >= 0)) throw new Error('maxSteps must not be negative');
+
+        this.config = resolveConfig(this.options.config);
+        this.rewards = { ...DEFAULT_REWARDS, ...this.options.rewards };
+        this.observationSpace = { shape: [observationSize(this.options.encoding)], low: -1, high: 1, encoding: this.options.encoding };
+        this.sim = new GameSimulation(this.config);
+    }
+
+    public reset(seed: number): number[] {
+        this.sim.reset(seed);
+        this.sim.attachAutopilot(this.agent);
+        this.sim.input('autopilotOn');
+        this.steps = 0;
+        this.started = true;
+        this.done = false;
+        return this.observe();
+    }
+
+    // Takes a discrete action (index into ENV_ACTIONS, or its name) and runs frameSkip ticks
+    public step(action: number | EnvAction): EnvStep {
+        if (!this.started) throw new Error('Call reset() before step()');
+        const name = typeof action === 'number' ? ENV_ACTIONS[action] : action;
+        if (!ENV_ACTIONS.includes(name)) throw new Error(`Invalid action ${action}`);
+        if (this.done) throw new Error('Episode is over; call reset()');
+
+        const sim = this.sim;
+        const before = { distance: sim.distanceTraveled, coins: sim.coinsCollected };
+        const dt = 1 / this.config.simulationRate;
+        let crash: CollisionType | null = null;
+
+        this.agent.action = name;
+        for (let i = 0; i < this.options.frameSkip && !sim.isOver; i++) {
+            sim.step(dt);
+            for (const e of sim.drainEvents()) if (e.type === 'crash') crash = e.obstacle.type;
+        }
+        this.steps++;
+
+        const r = this.rewards;
+        const reward = r.distance * (sim.distanceTraveled - before.distance)
+            + r.coins * (sim.coinsCollected - before.coins)
+            + (sim.isOver ? r.crash : r.survival);
+        const truncated = !sim.isOver && this.options.maxSteps > 0 && this.steps >= this.options.maxSteps;
+        this.done = sim.isOver || truncated;
+
+        return {
+            observation: this.observe(),
+            reward,
+            done: this.done,
+            info: { truncated, crash, distance: sim.distanceTraveled, coins: sim.coinsCollected, score: sim.score, tick: sim.tick }
+        };
+    }
+
+    private observe(): number[] {
+        return encodeObservation(observe(this.sim), this.options.encoding);
+    }
+}
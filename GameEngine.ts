@@ -1,96 +1,132 @@
 import * as THREE from 'three';
-import { GameState, CollisionType, GameConfig, AIState } from './types';
-
-interface LaneAnalysis {
-    lane: number;
-    isDeadly: boolean; // Solid obstacle ahead
-    isBlockedSide: boolean; // Solid obstacle RIGHT HERE (Overlap)
-    action: 'none' | 'jump' | 'duck'; // Action required to survive
-    score: number; // Higher is better
-    distanceToThreat: number;
-    threatType: CollisionType | 'none';
-    firstSolidDist: number; // Distance to absolute block ahead
-}
-
+import { GameState, CollisionType, AIState, GameConfig, HUDState, HUDPopup, GhostStatus, RunStats, PowerUpType, RenderStats, CourseRunMode, DistrictStatus, EngineEvent, AutopilotId } from './types';
+import { SeededRandom, deriveSeed, randomSeed } from './Random';
+import { GameSimulation, PLAYER_BASE_Y, damp, resolveConfig } from './Simulation';
+import { ReplayFile, checkReplayPolicy, createReplay } from './Replay';
+import { ChunkDef, DEFAULT_CHUNKS } from './Chunks';
+import { GhostRecorder, GhostPlayback, GhostTrack } from './Ghost';
+import { POWERUPS } from './PowerUps';
+import { TRICK_LABELS, COMBO_DECAY_TIME } from './Tricks';
+import { ScenePools } from './ScenePools';
+import { CityScenery, WINDOW_VARIANTS } from './Scenery';
+import { District, DISTRICTS, districtAt, districtBlend } from './Districts';
+import { timeOfDay } from './Weather';
+import { WeatherEffects } from './WeatherEffects';
+import { QualityManager, QualitySetting, QualityLevel, QUALITY_PRESETS } from './Quality';
+import { AccessibilitySettings, DEFAULT_ACCESSIBILITY, PALETTES } from './Accessibility';
+import { DEFAULT_AUTOPILOT } from './Autopilot';
+
+const MAX_FRAME_TIME = 0.25; // seconds; longer stalls are dropped rather than simulated
+const POPUP_LIFETIME = 1.2; // seconds
+const AMBIENT_INTENSITY = 1.5;
+const SUN_INTENSITY = 2;
+const LIGHTNING_COLOR = 0x8899cc;
+const PUDDLE_COUNT = 300;
+
+const _fromColor = new THREE.Color();
+const _toColor = new THREE.Color();
+
+// Three.js view of a GameSimulation: owns the scene, mirrors simulation state into meshes and adds the visual effects.
 export class GameEngine {
     private scene: THREE.Scene;
     private camera: THREE.PerspectiveCamera;
     private renderer: THREE.WebGLRenderer;
     private container: HTMLElement;
     
+    // Simulation (all game rules live here)
+    private sim: GameSimulation;
+    private baseConfig: Partial<GameConfig>; // overrides applied to every run started with start()
+    private autoPilotPreferred: boolean = false;
+    private botPreferred: AutopilotId = DEFAULT_AUTOPILOT;
+    private courseMode: CourseRunMode | null = null;
+    private accessibility: AccessibilitySettings = DEFAULT_ACCESSIBILITY;
+    private slowedRun: boolean = false; // speed scale was below 1 at some point this run
+
     // Game Objects
+    private pools: ScenePools = new ScenePools();
     private player: THREE.Group | null = null;
-    private groundSegments: THREE.Object3D[] = [];
-    private obstacles: THREE.Group[] = [];
+    private scenery: CityScenery | null = null;
+    private obstacleViews: Map<number, THREE.Object3D> = new Map();
     private particles: THREE.Mesh[] = [];
     private glitterSystem: THREE.Points | null = null;
+    private weatherFx: WeatherEffects | null = null;
+    private sun: THREE.DirectionalLight | null = null;
+    private ambient: THREE.AmbientLight | null = null;
+    private ghostMesh: THREE.Group | null = null;
+    private shieldBubble: THREE.Mesh | null = null;
+
+    // Ghost racing
+    private ghostRecorder: GhostRecorder = new GhostRecorder();
+    private ghostPlayback: GhostPlayback | null = null;
+
+    // District the player is in, for the HUD banner
+    private district: District = DISTRICTS[0];
+    private districtAge: number = 0;
+
+    // HUD popups ("+NEAR MISS x3")
+    private popups: HUDPopup[] = [];
+    private nextPopupId: number = 1;
 
-    // Resources (Textures/Materials)
-    private buildingTextures: THREE.CanvasTexture[] = [];
-    private roadMaterial: THREE.MeshStandardMaterial | null = null;
-    private sidewalkMaterial: THREE.MeshStandardMaterial | null = null;
-    private treeMaterial: THREE.MeshStandardMaterial | null = null;
+    // Resources (shared geometries/materials live in `pools`)
+    private buildingTextures: THREE.CanvasTexture[][] = []; // per district, per facade variant
+
+    // Rendering quality (fixed or driven by measured frame time)
+    private quality: QualityManager;
+    private appliedPixelRatio: number = 0;
 
     // State
     public state: GameState = GameState.MENU;
     private animationId: number = 0;
-    private score: number = 0;
-    private distanceTraveled: number = 0;
-    private gameSpeed: number = 0;
-    
-    // Configuration
-    private config: GameConfig = {
-        laneWidth: 4,
-        startSpeed: 0.6,
-        maxSpeed: 2.8, 
-        speedIncrement: 0.0002, 
-        jumpForce: 0.38,
-        gravity: 0.020,
-        visibilityRange: 350, 
-        fogDensity: 0.008
-    };
-
-    // Player Physics
-    private currentLane: number = 0;
-    private targetX: number = 0;
-    private playerVelocityY: number = 0;
-    private isJumping: boolean = false;
-    private isRolling: boolean = false;
-    private rollTimer: number = 0;
-    private playerBaseY: number = 1;
-    
-    // AI / Auto Pilot
-    public autoPilotEnabled: boolean = false;
-    private lastSafeLane: number = 0; 
-    private aiLaneChangeCooldown: number = 0;
+    private lastFrameTime: number = 0;
+    private accumulator: number = 0;
+
+    // Previous tick, for render interpolation
+    private prevDistance: number = 0;
+    private prevPlayerX: number = 0;
+    private prevPlayerY: number = PLAYER_BASE_Y;
+
+    // Randomness for presentation only (the track stream lives in the simulation)
+    private seed: number = 0;
+    private worldSeed: number = 0;
+    private sceneryRng: SeededRandom = new SeededRandom(0);
+    private fxRng: SeededRandom = new SeededRandom(0);
 
     // Callbacks
     private onScoreChange: (score: number) => void;
     private onGameOver: (finalScore: number) => void;
     private onAIUpdate: (state: AIState) => void;
+    private onHUDUpdate: (hud: HUDState) => void;
+    private listeners: Set<(event: EngineEvent) => void> = new Set();
 
     constructor(
         container: HTMLElement, 
         onScoreChange: (s: number) => void, 
         onGameOver: (s: number) => void,
-        onAIUpdate: (state: AIState) => void
+        onAIUpdate: (state: AIState) => void,
+        onHUDUpdate: (hud: HUDState) => void,
+        quality: QualitySetting = 'auto',
+        config: Partial<GameConfig> = {}
     ) {
         this.container = container;
         this.onScoreChange = onScoreChange;
         this.onGameOver = onGameOver;
         this.onAIUpdate = onAIUpdate;
+        this.onHUDUpdate = onHUDUpdate;
+        this.quality = new QualityManager(quality);
+        this.sim = new GameSimulation(resolveConfig(config));
+        this.baseConfig = config;
 
         // Init THREE
         this.scene = new THREE.Scene();
-        const fogColor = new THREE.Color(0x020205);
-        this.scene.background = fogColor;
-        this.scene.fog = new THREE.FogExp2(0x020205, this.config.fogDensity);
+        this.scene.background = new THREE.Color(DISTRICTS[0].sky);
+        this.scene.fog = new THREE.FogExp2(DISTRICTS[0].sky, this.sim.config.fogDensity);
 
         this.camera = new THREE.PerspectiveCamera(60, window.innerWidth / window.innerHeight, 0.1, 400);
         this.camera.position.set(0, 6, 14);
         this.camera.lookAt(0, 2, -10);
 
-        this.renderer = new THREE.WebGLRenderer({ antialias: true, powerPreference: "high-performance" });
+        // Antialiasing can only be chosen when the context is created
+        this.renderer = new THREE.WebGLRenderer({ antialias: quality !== 'low', powerPreference: "high-performance" });
         this.renderer.setSize(window.innerWidth, window.innerHeight);
         this.renderer.shadowMap.enabled = true;
         this.renderer.shadowMap.type = THREE.PCFSoftShadowMap;
@@ -98,66 +134,51 @@ export class GameEngine {
         this.renderer.toneMappingExposure = 1.2;
         container.appendChild(this.renderer.domElement);
 
+        this.seedStreams(randomSeed());
+
         this.initMaterials();
         this.setupLights();
         this.createPlayer();
         this.createInitialWorld();
         this.createGlitter();
+        this.weatherFx = new WeatherEffects(QUALITY_PRESETS.high.glitterCount, PUDDLE_COUNT);
+        this.scene.add(this.weatherFx.group);
+        this.applyQuality();
 
-        window.addEventListener('resize', this.onResize.bind(this));
+        window.addEventListener('resize', this.onResize);
     }
 
-    private initMaterials() {
-        this.buildingTextures = [
-            this.generateBuildingTexture(0),
-            this.generateBuildingTexture(1),
-            this.generateBuildingTexture(2)
-        ];
-
-        this.roadMaterial = new THREE.MeshStandardMaterial({
-            color: 0x111111,
-            roughness: 0.2,
-            metalness: 0.6,
-            dithering: true
-        });
+    // Event feed for presentation layers that live outside the scene (audio); returns an unsubscribe function
+    public subscribe(listener: (event: EngineEvent) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
 
-        this.sidewalkMaterial = new THREE.MeshStandardMaterial({
-            color: 0x333333,
-            roughness: 0.9,
-            metalness: 0.1
-        });
+    private emit(event: EngineEvent) {
+        this.listeners.forEach(l => l(event));
+    }
 
-        this.treeMaterial = new THREE.MeshStandardMaterial({
-            color: 0x2d4c1e,
-            roughness: 0.8,
-            emissive: 0x001100
-        });
+    private seedStreams(seed: number) {
+        this.seed = seed >>> 0;
+        this.sceneryRng = new SeededRandom(deriveSeed(this.seed, 'scenery'));
+        this.fxRng = new SeededRandom(deriveSeed(this.seed, 'fx'));
+    }
+
+    private initMaterials() {
+        this.buildingTextures.flat().forEach(t => t.dispose());
+        this.buildingTextures = DISTRICTS.map(d => Array.from({ length: WINDOW_VARIANTS }, (_, v) => this.generateBuildingTexture(d, v)));
+        this.scenery?.setWindowTextures(this.buildingTextures);
     }
 
-    private generateBuildingTexture(variant: number): THREE.CanvasTexture {
+    private generateBuildingTexture(district: District, variant: number): THREE.CanvasTexture {
         const canvas = document.createElement('canvas');
         canvas.width = 256;
         canvas.height = 512;
         const ctx = canvas.getContext('2d')!;
         
-        ctx.fillStyle = variant === 0 ? '#050510' : (variant === 1 ? '#0a0a15' : '#000505');
+        ctx.fillStyle = district.wall;
         ctx.fillRect(0, 0, 256, 512);
-
-        const windowColor = variant === 0 ? '#00ffff' : (variant === 1 ? '#ff00ff' : '#ffffff');
-        for (let y = 0; y < 512; y += 20) {
-            if (Math.random() > 0.8) continue;
-            for (let x = 10; x < 246; x += 30) {
-                if (Math.random() > 0.4) {
-                    ctx.fillStyle = windowColor;
-                    ctx.globalAlpha = 0.8 + Math.random() * 0.2;
-                    ctx.fillRect(x, y, 20, 12);
-                } else {
-                    ctx.fillStyle = '#111122';
-                    ctx.globalAlpha = 1;
-                    ctx.fillRect(x, y, 20, 12);
-                }
-            }
-        }
+        district.paintFacade(ctx, district.windows[variant], this.sceneryRng);
         
         const tex = new THREE.CanvasTexture(canvas);
         tex.magFilter = THREE.NearestFilter;
@@ -166,29 +187,29 @@ export class GameEngine {
     }
 
     private setupLights() {
-        const ambientLight = new THREE.AmbientLight(0x404060, 1.5);
+        const ambientLight = new THREE.AmbientLight(DISTRICTS[0].ambient, AMBIENT_INTENSITY);
         this.scene.add(ambientLight);
+        this.ambient = ambientLight;
 
-        const dirLight = new THREE.DirectionalLight(0xaaccff, 2);
+        const dirLight = new THREE.DirectionalLight(DISTRICTS[0].sun, SUN_INTENSITY);
         dirLight.position.set(-20, 50, 10);
         dirLight.castShadow = true;
-        dirLight.shadow.mapSize.width = 2048;
-        dirLight.shadow.mapSize.height = 2048;
-        dirLight.shadow.bias = -0.0001;
+        dirLight.shadow.bias = -0.0001; // map size comes from the quality preset
         this.scene.add(dirLight);
+        this.sun = dirLight;
     }
 
     private createGlitter() {
-        const count = 2000;
+        const count = QUALITY_PRESETS.high.glitterCount; // lower presets draw a prefix of the buffer
         const geom = new THREE.BufferGeometry();
         const positions = new Float32Array(count * 3);
         const velocities = new Float32Array(count);
         
         for(let i=0; i<count; i++) {
-            positions[i*3] = (Math.random() - 0.5) * 150;
-            positions[i*3+1] = Math.random() * 60;
-            positions[i*3+2] = -Math.random() * 100;
-            velocities[i] = 0.5 + Math.random();
+            positions[i*3] = (this.fxRng.next() - 0.5) * 150;
+            positions[i*3+1] = this.fxRng.next() * 60;
+            positions[i*3+2] = -this.fxRng.next() * 100;
+            velocities[i] = 30 + this.fxRng.next() * 60;
         }
         
         geom.setAttribute('position', new THREE.BufferAttribute(positions, 3));
@@ -277,628 +298,446 @@ export class GameEngine {
 
         this.player.position.set(0, 1, 0);
         this.scene.add(this.player);
+
+        // Shield power-up bubble (kept out of the player group so the ghost clone doesn't inherit it)
+        this.shieldBubble = new THREE.Mesh(new THREE.IcosahedronGeometry(1.6, 1),
+            new THREE.MeshBasicMaterial({ color: POWERUPS[PowerUpType.SHIELD].color, wireframe: true, transparent: true, opacity: 0.35 }));
+        this.shieldBubble.visible = false;
+        this.scene.add(this.shieldBubble);
     }
 
     private createInitialWorld() {
-        for (let i = 0; i < 25; i++) {
-            this.spawnGroundSegment(-i * 10);
-        }
+        this.worldSeed = this.seed;
+        this.scenery = new CityScenery(this.sim.config.laneWidth);
+        this.scenery.setWindowTextures(this.buildingTextures);
+        this.scenery.reset(this.worldSeed, this.sim.config.districtLength);
+        this.scene.add(this.scenery.group);
     }
 
-    private spawnGroundSegment(z: number) {
-        const segmentGroup = new THREE.Group();
-        segmentGroup.position.z = z;
-
-        const road = new THREE.Mesh(
-            new THREE.PlaneGeometry(14, 10),
-            this.roadMaterial!
-        );
-        road.rotation.x = -Math.PI / 2;
-        road.receiveShadow = true;
-        segmentGroup.add(road);
-
-        const laneMat = new THREE.MeshBasicMaterial({ color: 0x00ffff });
-        const lineL = new THREE.Mesh(new THREE.PlaneGeometry(0.15, 10), laneMat);
-        lineL.rotation.x = -Math.PI / 2;
-        lineL.position.set(-this.config.laneWidth / 2, 0.02, 0);
-        segmentGroup.add(lineL);
-
-        const lineR = new THREE.Mesh(new THREE.PlaneGeometry(0.15, 10), laneMat);
-        lineR.rotation.x = -Math.PI / 2;
-        lineR.position.set(this.config.laneWidth / 2, 0.02, 0);
-        segmentGroup.add(lineR);
-
-        const sidewalkGeo = new THREE.BoxGeometry(4, 0.4, 10);
-        
-        const swL = new THREE.Mesh(sidewalkGeo, this.sidewalkMaterial!);
-        swL.position.set(-9, 0.2, 0);
-        swL.receiveShadow = true;
-        segmentGroup.add(swL);
-        
-        const swR = new THREE.Mesh(sidewalkGeo, this.sidewalkMaterial!);
-        swR.position.set(9, 0.2, 0);
-        swR.receiveShadow = true;
-        segmentGroup.add(swR);
-
-        if (Math.random() < 0.33) {
-            this.spawnStreetLamp(-8, 0, segmentGroup);
-            this.spawnStreetLamp(8, 0, segmentGroup);
-        }
-
-        if (Math.random() < 0.5) {
-             this.spawnTree(-10, Math.random() * 4 - 2, segmentGroup);
-             this.spawnTree(10, Math.random() * 4 - 2, segmentGroup);
+    // Rebuild the skyline so the same seed always produces the same city
+    private rebuildWorld(districtLength: number) {
+        if (this.worldSeed !== this.seed) {
+            this.worldSeed = this.seed;
+            this.initMaterials();
         }
+        this.scenery?.reset(this.worldSeed, districtLength);
+    }
 
-        if (Math.random() > 0.1) {
-            this.spawnBuilding(-16 - Math.random()*2, 0, segmentGroup);
-            this.spawnBuilding(16 + Math.random()*2, 0, segmentGroup);
+    // --- OBSTACLE VIEWS ---
+    // Mirror simulation obstacles into the scene; `lag` pulls everything back for interpolation
+    private syncObstacles(lag: number, frameTime: number) {
+        const alive = new Set<number>();
+        for (const obs of this.sim.obstacles) {
+            alive.add(obs.id);
+            let view = this.obstacleViews.get(obs.id);
+            if (!view) {
+                view = this.pools.acquireObstacle(obs);
+                this.scene.add(view);
+                this.obstacleViews.set(obs.id, view);
+            }
+            const isPickup = obs.type === CollisionType.COIN || obs.type === CollisionType.POWERUP;
+            const y = isPickup ? (obs.y ?? 1.5) : 0;
+            view.position.set(obs.x, y, obs.z - lag);
+            view.visible = obs.active;
+
+            if (obs.type === CollisionType.COIN) {
+                view.rotation.y += 3 * frameTime;
+                view.rotation.x += 1.2 * frameTime;
+            } else if (obs.type === CollisionType.POWERUP) {
+                view.rotation.y += 2 * frameTime;
+            }
         }
 
-        this.scene.add(segmentGroup);
-        this.groundSegments.push(segmentGroup);
+        this.obstacleViews.forEach((view, id) => {
+            if (!alive.has(id)) {
+                this.pools.release(view);
+                this.obstacleViews.delete(id);
+            }
+        });
     }
 
-    private spawnStreetLamp(x: number, z: number, parent: THREE.Group) {
-        const poleMat = new THREE.MeshStandardMaterial({ color: 0x111111, metalness: 0.8, roughness: 0.2 });
-        const bulbMat = new THREE.MeshBasicMaterial({ color: 0xffaa00 });
-
-        const group = new THREE.Group();
-        group.position.set(x, 0, z);
-
-        const pole = new THREE.Mesh(new THREE.CylinderGeometry(0.1, 0.15, 6), poleMat);
-        pole.position.y = 3;
-        pole.castShadow = true;
-        group.add(pole);
-
-        const arm = new THREE.Mesh(new THREE.BoxGeometry(1.5, 0.1, 0.1), poleMat);
-        arm.position.set(x > 0 ? -0.75 : 0.75, 6, 0);
-        group.add(arm);
-
-        const head = new THREE.Mesh(new THREE.BoxGeometry(0.4, 0.2, 0.3), poleMat);
-        head.position.set(x > 0 ? -1.5 : 1.5, 5.9, 0);
-        group.add(head);
-
-        const bulb = new THREE.Mesh(new THREE.BoxGeometry(0.2, 0.05, 0.2), bulbMat);
-        bulb.position.set(x > 0 ? -1.5 : 1.5, 5.8, 0);
-        group.add(bulb);
-
-        const spot = new THREE.SpotLight(0xffaa00, 10, 20, 0.6, 0.5, 1);
-        spot.position.set(x > 0 ? -1.5 : 1.5, 5.8, 0);
-        spot.target.position.set(x > 0 ? -1.5 : 1.5, 0, 0);
-        spot.castShadow = false; 
-        group.add(spot);
-        group.add(spot.target);
-
-        parent.add(group);
+    private clearObstacleViews() {
+        this.obstacleViews.forEach(view => this.pools.release(view));
+        this.obstacleViews.clear();
     }
 
-    private spawnTree(x: number, z: number, parent: THREE.Group) {
-        const trunkGeo = new THREE.CylinderGeometry(0.2, 0.3, 1.5, 6);
-        const trunkMat = new THREE.MeshStandardMaterial({ color: 0x3d2817, roughness: 1.0 });
-        const leavesGeo = new THREE.IcosahedronGeometry(1.2, 0);
+    // --- GAME LOOP ---
 
-        const tree = new THREE.Group();
-        tree.position.set(x, 0, z);
+    // `config` overrides the constructor's config for this run; throws if the result is invalid
+    public start(seed: number = randomSeed(), config: Partial<GameConfig> = {}) {
+        if (this.state === GameState.PLAYING) return;
+        const runConfig = resolveConfig({ ...this.baseConfig, ...config });
+        cancelAnimationFrame(this.animationId);
 
-        const trunk = new THREE.Mesh(trunkGeo, trunkMat);
-        trunk.position.y = 0.75;
-        trunk.castShadow = true;
-        tree.add(trunk);
+        this.courseMode = null;
+        this.beginRun(seed, runConfig);
+        if (this.botPreferred !== DEFAULT_AUTOPILOT) this.sim.input(`bot:${this.botPreferred}`);
+        if (this.autoPilotPreferred) this.sim.input('autopilotOn');
+        this.launch();
+    }
 
-        const leaves = new THREE.Mesh(leavesGeo, this.treeMaterial!);
-        leaves.position.y = 2.2;
-        leaves.castShadow = true;
-        tree.add(leaves);
+    // Plays a recorded run back through a fresh simulation; live input is ignored until it ends
+    public startReplay(replay: ReplayFile) {
+        if (this.state === GameState.PLAYING) return;
+        checkReplayPolicy(replay);
+        cancelAnimationFrame(this.animationId);
 
-        parent.add(tree);
+        this.courseMode = null;
+        this.beginRun(replay.seed, replay.config, replay.course ?? null);
+        this.sim.startPlayback(replay.inputs);
+        this.launch();
     }
 
-    private spawnBuilding(x: number, z: number, parent: THREE.Group) {
-        const h = 15 + Math.random() * 35;
-        const w = 6 + Math.random() * 6;
-        const d = 6 + Math.random() * 6;
-        
-        const texIndex = Math.floor(Math.random() * this.buildingTextures.length);
-        const mat = new THREE.MeshStandardMaterial({ 
-            map: this.buildingTextures[texIndex],
-            roughness: 0.3,
-            metalness: 0.1
-        });
+    // Plays one authored chunk as a fixed course at a constant speed (editor preview and test runs).
+    // 'preview' flies through it with the player hidden and collisions off.
+    public startCourse(course: ChunkDef, mode: CourseRunMode, speed: number, config: Partial<GameConfig> = {}) {
+        if (this.state === GameState.PLAYING) return;
+        const base = resolveConfig({ ...this.baseConfig, ...config });
+        const runConfig = resolveConfig({ startSpeed: speed, maxSpeed: Math.max(speed, base.maxSpeed), speedIncrement: 0 }, base);
+        cancelAnimationFrame(this.animationId);
 
-        const building = new THREE.Mesh(new THREE.BoxGeometry(w, h, d), mat);
-        building.position.set(x, h / 2, z);
-        building.castShadow = true;
-        parent.add(building);
-
-        if (Math.random() > 0.5) {
-            const antH = 2 + Math.random() * 5;
-            const antenna = new THREE.Mesh(
-                new THREE.CylinderGeometry(0.1, 0.2, antH),
-                new THREE.MeshStandardMaterial({ color: 0x444444 })
-            );
-            antenna.position.y = h/2 + antH/2;
-            building.add(antenna);
-            
-            const blinker = new THREE.Mesh(new THREE.SphereGeometry(0.2), new THREE.MeshBasicMaterial({ color: 0xff0000 }));
-            blinker.position.y = antH/2;
-            antenna.add(blinker);
+        this.courseMode = mode;
+        this.beginRun(randomSeed(), runConfig, course);
+        this.sim.invulnerable = mode === 'preview';
+        if (this.player) this.player.visible = mode !== 'preview';
+        if (mode === 'autopilot') {
+            if (this.botPreferred !== DEFAULT_AUTOPILOT) this.sim.input(`bot:${this.botPreferred}`);
+            this.sim.input('autopilotOn');
         }
+        this.launch();
     }
 
-    // --- OBSTACLE & SPAWNING ---
-    private spawnObstacleRow(z: number) {
-        const possibleLanes = [this.lastSafeLane];
-        if (this.lastSafeLane > -1) possibleLanes.push(this.lastSafeLane - 1);
-        if (this.lastSafeLane < 1) possibleLanes.push(this.lastSafeLane + 1);
-
-        const safeLaneIdx = possibleLanes[Math.floor(Math.random() * possibleLanes.length)];
-        this.lastSafeLane = safeLaneIdx; 
-
-        [-1, 0, 1].forEach(laneIdx => {
-            const x = laneIdx * this.config.laneWidth;
-            if (laneIdx === safeLaneIdx) {
-                if (Math.random() < 0.3) this.spawnCoin(x, z, laneIdx);
-            } else {
-                if (Math.random() < 0.8) this.createObstacleAt(x, z, laneIdx);
-            }
-        });
+    // Set while the current (or just finished) run was started from the editor
+    public get courseRunMode(): CourseRunMode | null {
+        return this.courseMode;
     }
 
-    private createObstacleAt(x: number, z: number, laneIdx: number) {
-        const typeRand = Math.random();
-        const obsGroup = new THREE.Group();
-        obsGroup.position.set(x, 0, z);
-        obsGroup.userData = { active: true, lane: laneIdx };
-
-        const techMat = new THREE.MeshStandardMaterial({ color: 0x222222, roughness: 0.4, metalness: 0.8 });
-        const hazardMat = new THREE.MeshStandardMaterial({ color: 0xff3300, emissive: 0xff0000, emissiveIntensity: 0.5 });
-        const glassMat = new THREE.MeshPhysicalMaterial({ 
-            color: 0x88ccff, transmission: 0.9, opacity: 1, transparent: true, roughness: 0, metalness: 0 
-        });
-
-        if (typeRand < 0.25) {
-            // JUMP (Energy Barrier) - Must Jump OVER
-            obsGroup.userData.collisionType = CollisionType.JUMP;
-            
-            const base = new THREE.Mesh(new THREE.BoxGeometry(3.5, 0.5, 0.5), techMat);
-            base.position.y = 0.25;
-            obsGroup.add(base);
-            
-            // Energy Field
-            const field = new THREE.Mesh(new THREE.BoxGeometry(3.3, 0.8, 0.1), glassMat);
-            field.position.y = 0.9;
-            obsGroup.add(field);
-            
-            const top = new THREE.Mesh(new THREE.BoxGeometry(3.5, 0.2, 0.2), hazardMat);
-            top.position.y = 1.4;
-            obsGroup.add(top);
-
-        } else if (typeRand < 0.5) {
-            // DUCK (Overhead Pipe/Drone) - Must Roll UNDER
-            obsGroup.userData.collisionType = CollisionType.DUCK;
-            
-            const droneBody = new THREE.Mesh(new THREE.BoxGeometry(3.8, 1, 1), techMat);
-            droneBody.position.y = 3.0;
-            droneBody.castShadow = true;
-            obsGroup.add(droneBody);
-
-            const l1 = new THREE.Mesh(new THREE.SphereGeometry(0.2), hazardMat);
-            l1.position.set(-1.5, 3, 0.6);
-            obsGroup.add(l1);
-            const l2 = l1.clone();
-            l2.position.set(1.5, 3, 0.6);
-            obsGroup.add(l2);
-
-            const p1 = new THREE.Mesh(new THREE.CylinderGeometry(0.1, 0.1, 4), techMat);
-            p1.position.set(-1.8, 2, 0);
-            obsGroup.add(p1);
-            const p2 = p1.clone();
-            p2.position.set(1.8, 2, 0);
-            obsGroup.add(p2);
-
-        } else {
-            // SOLID (Data Wall) - Must Dodge
-            obsGroup.userData.collisionType = CollisionType.SOLID;
-            
-            const mesh = new THREE.Mesh(new THREE.BoxGeometry(3.6, 4, 3.6), techMat);
-            mesh.position.y = 2;
-            mesh.castShadow = true;
-            obsGroup.add(mesh);
-
-            const screen = new THREE.Mesh(new THREE.PlaneGeometry(2.5, 2.5), new THREE.MeshBasicMaterial({ color: 0xff0000 }));
-            screen.position.set(0, 2.5, 1.81);
-            obsGroup.add(screen);
-        }
-
-        this.scene.add(obsGroup);
-        this.obstacles.push(obsGroup);
+    public get courseCleared(): boolean {
+        return this.sim.courseCleared;
     }
 
-    private spawnCoin(x: number, z: number, laneIdx: number) {
-        const coin = new THREE.Mesh(
-            new THREE.OctahedronGeometry(0.5, 0),
-            new THREE.MeshBasicMaterial({ color: 0xffd700, wireframe: true })
-        );
-        const inner = new THREE.Mesh(
-            new THREE.OctahedronGeometry(0.3, 0),
-            new THREE.MeshBasicMaterial({ color: 0xffaa00 })
-        );
-        coin.add(inner);
+    // Replay of the current (or just finished) run
+    public getReplay(): ReplayFile {
+        return createReplay(this.sim);
+    }
 
-        coin.position.set(x, 1.5, z);
-        coin.userData = { active: true, collisionType: CollisionType.COIN, lane: laneIdx };
-        this.scene.add(coin);
-        this.obstacles.push(coin as any);
+    public getRunStats(): RunStats {
+        return { ...this.sim.getRunStats(), slowed: this.slowedRun };
     }
 
-    // --- GAME LOOP ---
+    public get isReplay(): boolean {
+        return this.sim.isPlayback;
+    }
 
-    public start() {
-        if (this.state === GameState.PLAYING) return;
-        
-        this.score = 0;
-        this.distanceTraveled = 0;
-        this.gameSpeed = this.config.startSpeed;
-        this.currentLane = 0;
-        this.lastSafeLane = 0;
-        this.playerVelocityY = 0;
-        this.isJumping = false;
-        this.isRolling = false;
-        this.aiLaneChangeCooldown = 0;
-        
-        this.obstacles.forEach(o => this.scene.remove(o));
-        this.obstacles = [];
-        this.particles.forEach(p => this.scene.remove(p));
+    private beginRun(seed: number, config: GameConfig, course: ChunkDef | null = null) {
+        this.seedStreams(seed);
+        this.rebuildWorld(config.districtLength);
+
+        this.sim = new GameSimulation(config, DEFAULT_CHUNKS, course);
+        this.sim.reset(this.seed);
+        this.applyQuality(); // fog follows the run's config
+        this.ghostRecorder.reset();
+        this.slowedRun = false;
+        this.popups = [];
+        this.weatherFx?.reset(this.seed);
+        this.district = districtAt(0, config.districtLength);
+        this.districtAge = 0;
+        this.prevDistance = 0;
+        this.prevPlayerX = this.sim.player.x;
+        this.prevPlayerY = this.sim.player.y;
+
+        this.clearObstacleViews();
+        this.particles.forEach(p => this.pools.release(p));
         this.particles = [];
         
         if (this.player) {
-            this.player.position.set(0, 1, 0);
+            this.player.position.set(0, PLAYER_BASE_Y, 0);
             this.player.visible = true;
             this.player.rotation.set(0, 0, 0);
+            this.player.scale.y = 1;
         }
+    }
 
+    private launch(resumed: boolean = false) {
+        this.emit({ type: resumed ? 'resume' : 'runStart' });
         this.state = GameState.PLAYING;
+        this.lastFrameTime = performance.now();
+        this.accumulator = 0;
         this.animate();
     }
 
-    private animate = () => {
+    // Freezes the simulation; the last rendered frame stays on screen
+    public pause() {
         if (this.state !== GameState.PLAYING) return;
-        this.animationId = requestAnimationFrame(this.animate);
-        this.update();
-        this.renderer.render(this.scene, this.camera);
+        this.state = GameState.PAUSED;
+        cancelAnimationFrame(this.animationId);
+        this.emit({ type: 'pause' });
     }
 
-    private update() {
-        this.gameSpeed = Math.min(this.config.maxSpeed, this.gameSpeed + this.config.speedIncrement);
-        this.distanceTraveled += this.gameSpeed;
-        this.score = Math.floor(this.distanceTraveled * 10);
-        this.onScoreChange(this.score);
-
-        if (this.autoPilotEnabled) this.updateAI();
-
-        // --- PHYSICS ---
-        this.targetX = this.currentLane * this.config.laneWidth;
-        if (this.player) {
-            // Anti-Hover: fast snap for AI
-            const lerpFactor = this.autoPilotEnabled ? 0.8 : 0.3; 
-            
-            this.player.position.x += (this.targetX - this.player.position.x) * lerpFactor;
-
-            if (this.autoPilotEnabled && Math.abs(this.player.position.x - this.targetX) < 0.2) {
-                this.player.position.x = this.targetX;
-            } else if (!this.autoPilotEnabled && Math.abs(this.player.position.x - this.targetX) < 0.05) {
-                this.player.position.x = this.targetX;
-            }
-
-            const targetLean = (this.targetX - this.player.position.x) * -0.15;
-            this.player.rotation.z += (targetLean - this.player.rotation.z) * 0.1;
+    public resume() {
+        if (this.state !== GameState.PAUSED) return;
+        // Restart frame timing so the time spent paused is never simulated
+        this.launch(true);
+    }
 
-            if (this.isJumping) {
-                this.player.position.y += this.playerVelocityY;
-                this.playerVelocityY -= this.config.gravity;
-                this.player.rotation.x = -0.2; 
+    // Abandon the current run (e.g. quit to menu)
+    public stop() {
+        if (this.state !== GameState.PLAYING && this.state !== GameState.PAUSED) return;
+        this.state = GameState.MENU;
+        cancelAnimationFrame(this.animationId);
+        this.emit({ type: 'stop' });
+    }
 
-                if (this.player.position.y <= this.playerBaseY) {
-                    this.player.position.y = this.playerBaseY;
-                    this.isJumping = false;
-                    this.playerVelocityY = 0;
-                    this.player.rotation.x = 0;
-                    this.createExplosion(this.player.position, 0x00ffff, 5); 
-                }
-            } else {
-                this.player.rotation.x = 0;
-                if (this.isRolling) {
-                    this.rollTimer--;
-                    this.player.scale.y = 0.6; 
-                    if (this.rollTimer <= 0) {
-                        this.isRolling = false;
-                        this.player.scale.y = 1;
-                    }
-                }
-            }
-        }
+    // Fixed-step simulation driven by an accumulator; rendering interpolates between the last two ticks
+    private animate = () => {
+        if (this.state !== GameState.PLAYING) return;
+        this.animationId = requestAnimationFrame(this.animate);
 
-        if (this.player) {
-            this.camera.position.x += (this.player.position.x * 0.6 - this.camera.position.x) * 0.1;
+        const now = performance.now();
+        const rawFrameTime = (now - this.lastFrameTime) / 1000;
+        // The speed scale slows game time itself, so the simulation and every effect stay in step
+        const frameTime = Math.min(rawFrameTime, MAX_FRAME_TIME) * this.accessibility.speedScale;
+        if (this.accessibility.speedScale < 1 && !this.sim.isPlayback) this.slowedRun = true;
+        this.lastFrameTime = now;
+        // Stalls (tab switches, GC hitches) say nothing about sustained performance
+        if (rawFrameTime < MAX_FRAME_TIME && this.quality.sample(rawFrameTime)) this.applyQuality();
+
+        const dt = 1 / this.sim.config.simulationRate;
+        this.accumulator += frameTime;
+        while (this.accumulator >= dt && this.state === GameState.PLAYING) {
+            this.prevDistance = this.sim.distanceTraveled;
+            this.prevPlayerX = this.sim.player.x;
+            this.prevPlayerY = this.sim.player.y;
+
+            this.sim.step(dt);
+            this.ghostRecorder.record(this.sim);
+            this.accumulator -= dt;
+            this.handleSimulationEvents();
         }
 
-        this.groundSegments.forEach(g => {
-            g.position.z += this.gameSpeed;
-            if (g.position.z > 15) { 
-                g.position.z -= 250; 
-            }
+        const alpha = this.accumulator / dt;
+        this.emit({ type: 'frame', speed: this.sim.gameSpeed, maxSpeed: this.sim.config.maxSpeed, dt: frameTime });
+        this.onScoreChange(this.sim.score);
+        if (this.sim.autoPilotEnabled && this.sim.aiState) this.onAIUpdate(this.sim.aiState);
+        this.onHUDUpdate({
+            distance: this.sim.distanceTraveled,
+            district: this.updateDistrict(frameTime),
+            ghost: this.updateGhost(alpha),
+            powerUps: this.sim.activePowerUps.map(p => ({ ...p })),
+            combo: {
+                level: this.sim.combo,
+                decay: this.sim.combo > 0 ? this.sim.comboTimer / COMBO_DECAY_TIME : 0
+            },
+            popups: this.updatePopups(frameTime)
         });
 
-        if (this.glitterSystem) {
-            const positions = this.glitterSystem.geometry.attributes.position.array as Float32Array;
-            const velocities = this.glitterSystem.geometry.attributes.velocity.array as Float32Array;
-            for(let i=0; i < positions.length; i+=3) {
-                positions[i+1] -= velocities[i/3]; 
-                positions[i+2] += this.gameSpeed * 1.2; 
-
-                if (positions[i+1] < 0 || positions[i+2] > 5) {
-                    positions[i+1] = 40 + Math.random() * 20;
-                    positions[i+2] = -50 - Math.random() * 50;
-                    positions[i] = (Math.random() - 0.5) * 120;
-                }
+        this.render(alpha, frameTime);
+    }
+
+    private handleSimulationEvents() {
+        for (const ev of this.sim.drainEvents()) {
+            this.emit(ev);
+            switch (ev.type) {
+                case 'coin':
+                    this.createExplosion(new THREE.Vector3(ev.obstacle.x, 1.5, ev.obstacle.z), 0xffff00, 10);
+                    break;
+                case 'powerup':
+                    this.createExplosion(new THREE.Vector3(ev.obstacle.x, 1.5, ev.obstacle.z), POWERUPS[ev.powerUp].color, 20);
+                    break;
+                case 'shieldBreak':
+                    this.createExplosion(new THREE.Vector3(ev.obstacle.x, 1.5, ev.obstacle.z), POWERUPS[PowerUpType.SHIELD].color, 40);
+                    break;
+                case 'nearMiss':
+                    this.addPopup(`+${TRICK_LABELS[ev.kind]} x${ev.combo}`, ev.kind);
+                    this.createExplosion(new THREE.Vector3(ev.obstacle.x, 1.5, ev.obstacle.z), 0xff00ff, 8);
+                    break;
+                case 'comboLost':
+                    this.addPopup('COMBO LOST', 'combo');
+                    break;
+                case 'land':
+                    this.createExplosion(new THREE.Vector3(this.sim.player.x, PLAYER_BASE_Y, 0), 0x00ffff, 5);
+                    break;
+                case 'crash':
+                case 'courseComplete':
+                    this.gameOver();
+                    break;
             }
-            this.glitterSystem.geometry.attributes.position.needsUpdate = true;
         }
+    }
 
-        // Obstacles
-        for (let i = this.obstacles.length - 1; i >= 0; i--) {
-            const obs = this.obstacles[i];
-            obs.position.z += this.gameSpeed;
-            
-            if (obs.userData.collisionType === CollisionType.COIN) {
-                obs.rotation.y += 0.05;
-                obs.rotation.x += 0.02;
-            }
+    // Draws the scene `alpha` of the way between the previous and current tick
+    private render(alpha: number, frameTime: number) {
+        const sim = this.sim;
+        const distance = this.prevDistance + (sim.distanceTraveled - this.prevDistance) * alpha;
+        const lag = sim.distanceTraveled - distance;
 
-            if (this.player && obs.userData.active) {
-                const dx = Math.abs(obs.position.x - this.player.position.x);
-                const dz = obs.position.z; 
-
-                // Precise hitboxes
-                if (dz > -1.0 && dz < 1.0 && dx < 1.2) {
-                    if (obs.userData.collisionType === CollisionType.COIN) {
-                        this.score += 500;
-                        this.createExplosion(obs.position, 0xffff00, 10);
-                        obs.userData.active = false;
-                        obs.visible = false;
-                    } else {
-                        let safe = false;
-                        // RULES OF SURVIVAL
-                        // 1. Solid: NEVER safe.
-                        // 2. Jump: Safe only if Y > 1.2
-                        // 3. Duck: Safe only if rolling
-                        
-                        if (obs.userData.collisionType === CollisionType.JUMP && this.player.position.y > 1.2) {
-                            safe = true;
-                        }
-                        else if (obs.userData.collisionType === CollisionType.DUCK && this.isRolling) {
-                            safe = true;
-                        }
-                        
-                        // NO AUTO-PILOT CHEATS. If not safe, you die.
-                        if (!safe) {
-                            this.gameOver();
-                        }
-                    }
-                }
+        this.syncObstacles(lag, frameTime);
+
+        this.scenery?.update(distance);
+        this.updateAtmosphere(distance, frameTime);
+
+        if (this.player) {
+            const p = sim.player;
+            this.player.position.x = this.prevPlayerX + (p.x - this.prevPlayerX) * alpha;
+            this.player.position.y = this.prevPlayerY + (p.y - this.prevPlayerY) * alpha;
+
+            const targetX = p.lane * sim.config.laneWidth;
+            const targetLean = this.accessibility.reducedMotion ? 0 : (targetX - this.player.position.x) * -0.15;
+            this.player.rotation.z += (targetLean - this.player.rotation.z) * damp(6.3, frameTime);
+            this.player.rotation.x = p.fastFalling ? 0.3 : p.isJumping ? -0.2 : 0;
+            this.player.scale.y = p.isRolling ? 0.6 : 1;
+
+            if (!this.accessibility.reducedMotion) {
+                this.camera.position.x += (this.player.position.x * 0.6 - this.camera.position.x) * damp(6.3, frameTime);
             }
 
-            if (obs.position.z > 15) {
-                this.scene.remove(obs);
-                this.obstacles.splice(i, 1);
+            if (this.shieldBubble) {
+                this.shieldBubble.visible = sim.hasPowerUp(PowerUpType.SHIELD);
+                this.shieldBubble.position.set(this.player.position.x, this.player.position.y + 0.5, 0);
+                this.shieldBubble.rotation.y += frameTime;
             }
         }
 
-        const spawnZ = -180; 
-        const minGap = 50 + (this.gameSpeed * 30); 
-        const lastObs = this.obstacles[this.obstacles.length - 1];
-        
-        if (!lastObs || lastObs.position.z > (spawnZ + minGap)) {
-            this.spawnObstacleRow(spawnZ);
-        }
+        this.updateGlitter(frameTime);
+        this.updateParticles(frameTime);
 
-        this.updateParticles();
+        this.renderer.render(this.scene, this.camera);
     }
 
-    // --- AI LOGIC ---
-    private updateAI() {
-        if (!this.player) return;
-
-        if (this.aiLaneChangeCooldown > 0) this.aiLaneChangeCooldown--;
-
-        const currentSpeed = this.gameSpeed;
-        const visionRange = 800 + (currentSpeed * 400); 
-
-        const analysis = [-1, 0, 1].map(l => this.analyzeLane(l, visionRange));
-        const currentLaneStats = analysis.find(a => a.lane === this.currentLane)!;
-
-        // GLOBAL PATHFINDING
-        const bestLaneAnalysis = analysis.sort((a,b) => b.score - a.score)[0];
-        
-        let targetLane = this.currentLane;
-        let aiAction: AIState['action'] = 'SCANNING';
-        let isEmergency = false;
-
-        // Threshold for imminent impact
-        if (currentLaneStats.firstSolidDist < (100 + currentSpeed * 20)) {
-            isEmergency = true;
-            this.aiLaneChangeCooldown = 0;
+    private updateGlitter(dt: number) {
+        if (!this.glitterSystem?.visible) return;
+        const positions = this.glitterSystem.geometry.attributes.position.array as Float32Array;
+        const velocities = this.glitterSystem.geometry.attributes.velocity.array as Float32Array;
+        const count = Math.min(positions.length, this.glitterSystem.geometry.drawRange.count * 3);
+        for(let i=0; i < count; i+=3) {
+            positions[i+1] -= velocities[i/3] * dt; 
+            positions[i+2] += this.sim.gameSpeed * 1.2 * dt; 
+
+            if (positions[i+1] < 0 || positions[i+2] > 5) {
+                positions[i+1] = 40 + this.fxRng.next() * 20;
+                positions[i+2] = -50 - this.fxRng.next() * 50;
+                positions[i] = (this.fxRng.next() - 0.5) * 120;
+            }
         }
+        this.glitterSystem.geometry.attributes.position.needsUpdate = true;
+    }
 
-        if (isEmergency) {
-            if (bestLaneAnalysis.lane !== this.currentLane) {
-                const diff = bestLaneAnalysis.lane - this.currentLane;
-                const direction = diff > 0 ? 1 : -1;
-                const nextStepLane = this.currentLane + direction;
-
-                const nextStepAnalysis = analysis.find(a => a.lane === nextStepLane)!;
-                
-                // CRITICAL SAFETY CHECK:
-                // 1. Is the side lane BLOCKED right now? (Side Swipe Protection)
-                if (!nextStepAnalysis.isBlockedSide) {
-                    
-                    // 2. Forward safety:
-                    // Only move if it's safe OR if it's safer than staying (Panic Squeeze).
-                    // If next lane has a wall further away than current wall, take it.
-                    const isSafer = nextStepAnalysis.firstSolidDist > 20 && 
-                                   (nextStepAnalysis.firstSolidDist > currentLaneStats.firstSolidDist);
-
-                    // Or if it is completely safe
-                    const isSafe = nextStepAnalysis.firstSolidDist > 30;
-
-                    if (isSafe || isSafer) {
-                        targetLane = nextStepLane;
-                        aiAction = 'DODGE';
-                    }
-                } else {
-                    // Side is blocked. We MUST wait.
-                    // Hopefully we can jump/duck the current obstacle until side clears.
-                    aiAction = 'SCANNING'; // Holding pattern
-                }
-            }
+    // --- DISTRICTS ---
+    private updateDistrict(frameTime: number): DistrictStatus {
+        const current = districtAt(this.sim.distanceTraveled, this.sim.config.districtLength);
+        if (current !== this.district) {
+            this.district = current;
+            this.districtAge = 0;
         } else {
-             // Optimize for coins/safety if not urgent
-             if (this.aiLaneChangeCooldown <= 0) {
-                 if (bestLaneAnalysis.score > currentLaneStats.score + 50 && bestLaneAnalysis.firstSolidDist > 300) {
-                     // Ensure we don't switch into a side-block even in non-emergency
-                     const targetStats = analysis.find(a => a.lane === bestLaneAnalysis.lane)!;
-                     if (!targetStats.isBlockedSide) {
-                        targetLane = bestLaneAnalysis.lane;
-                        aiAction = 'RUN';
-                        this.aiLaneChangeCooldown = 20;
-                     }
-                 }
-             }
+            this.districtAge += frameTime;
         }
+        return { label: this.district.label, age: this.districtAge };
+    }
 
-        if (targetLane !== this.currentLane) {
-            this.setLane(targetLane);
+    // Sky, fog and lights follow the district blend at the player's position, the time of day and the weather
+    private updateAtmosphere(distance: number, frameTime: number = 0) {
+        const sim = this.sim;
+        const { from, to, t } = districtBlend(distance, sim.config.districtLength);
+        const mix = (a: number, b: number) => _fromColor.setHex(a).lerp(_toColor.setHex(b), t);
+        const time = timeOfDay(sim.tick / sim.config.simulationRate);
+
+        this.weatherFx?.update(frameTime, sim.gameSpeed, sim.weather, mix(from.laneLine, to.laneLine));
+        const flash = this.accessibility.reducedMotion ? 0 : this.weatherFx?.flash ?? 0;
+
+        const fog = this.scene.fog as THREE.FogExp2;
+        fog.color.copy(mix(from.sky, to.sky)).add(_toColor.setHex(time.skyGlow)).lerp(_toColor.setHex(LIGHTNING_COLOR), flash * 0.5);
+        (this.scene.background as THREE.Color).copy(fog.color);
+        // Fog closes in as visibility drops, so the player loses sight of what the autopilot can't see either
+        const districtFog = from.fogScale + (to.fogScale - from.fogScale) * t;
+        fog.density = sim.config.fogDensity * QUALITY_PRESETS[this.quality.level].fogScale * districtFog / sim.weather.visibility;
+
+        if (this.ambient) {
+            this.ambient.color.copy(mix(from.ambient, to.ambient));
+            this.ambient.intensity = AMBIENT_INTENSITY * time.ambient + flash * 4;
+        }
+        if (this.sun) {
+            this.sun.color.copy(mix(from.sun, to.sun)).lerp(_toColor.setHex(time.sunColor), 0.5);
+            this.sun.intensity = SUN_INTENSITY * time.sun;
         }
+        this.scenery?.setLighting(time.lamps, time.windows);
+        this.scenery?.setWetness(this.weatherFx?.wetness ?? 0);
+    }
 
-        // --- ACTION EXECUTION ---
-        const effectiveLaneStats = analysis.find(a => a.lane === this.currentLane)!; 
+    // --- HUD POPUPS ---
+    private addPopup(text: string, kind: HUDPopup['kind']) {
+        this.popups.push({ id: this.nextPopupId++, text, kind, age: 0 });
+    }
 
-        if (effectiveLaneStats.action !== 'none') {
-            const dist = effectiveLaneStats.distanceToThreat;
-            const timeToImpactFrames = dist / this.gameSpeed;
+    private updatePopups(frameTime: number): HUDPopup[] {
+        this.popups.forEach(p => p.age += frameTime);
+        this.popups = this.popups.filter(p => p.age < POPUP_LIFETIME);
+        return this.popups.map(p => ({ ...p }));
+    }
 
-            if (effectiveLaneStats.action === 'jump') {
-                if (timeToImpactFrames < 25 && timeToImpactFrames > 5) { 
-                    this.jump();
-                    aiAction = 'JUMP';
+    // --- GHOST ---
+    // Race against a previous run's trajectory; null removes the ghost
+    public setGhost(track: GhostTrack | null) {
+        this.ghostPlayback = track ? new GhostPlayback(track) : null;
+        if (track && !this.ghostMesh && this.player) {
+            const ghostMat = new THREE.MeshBasicMaterial({
+                color: 0xff66ff, transparent: true, opacity: 0.25, depthWrite: false
+            });
+            this.ghostMesh = this.player.clone();
+            this.ghostMesh.rotation.set(0, 0, 0);
+            this.ghostMesh.traverse((o: THREE.Object3D) => {
+                if (o instanceof THREE.Mesh) {
+                    o.material = ghostMat;
+                    o.castShadow = false;
                 }
-            } else if (effectiveLaneStats.action === 'duck') {
-                if (timeToImpactFrames < 25 && timeToImpactFrames > 5) {
-                    this.roll();
-                    aiAction = 'DUCK';
-                }
-            }
+            });
+            this.scene.add(this.ghostMesh);
         }
-
-        this.onAIUpdate({
-            enabled: this.autoPilotEnabled,
-            currentLane: this.currentLane,
-            targetLane: targetLane,
-            action: aiAction,
-            confidence: isEmergency ? 20 : 100,
-            nearestThreatDist: Math.floor(currentLaneStats.distanceToThreat),
-            laneScores: analysis.sort((a,b) => a.lane - b.lane).map(a => a.score)
-        });
+        if (this.ghostMesh) this.ghostMesh.visible = false;
     }
 
-    private analyzeLane(laneIdx: number, range: number): LaneAnalysis {
-        let isDeadly = false;
-        let isBlockedSide = false;
-        let action: 'none' | 'jump' | 'duck' = 'none';
-        let score = 5000;
-        let distToThreat = 9999;
-        let firstSolidDist = 9999;
-        let threatType: CollisionType | 'none' = 'none';
-
-        const laneObs = this.obstacles.filter(o => 
-            o.userData.active && 
-            o.userData.lane === laneIdx && 
-            o.position.z > -range && 
-            o.position.z < 10 // Look further back (10 units) to catch passing obstacles
-        );
-        
-        laneObs.sort((a, b) => b.position.z - a.position.z);
-
-        for (const obs of laneObs) {
-            const type = obs.userData.collisionType as CollisionType;
-            const z = obs.position.z;
-            const dist = Math.abs(z); 
-
-            // SIDE SWIPE CHECK:
-            // Player is roughly at Z=0. Objects move +Z.
-            // If object is between -4 (approaching) and +5 (passed but close), 
-            // the side is blocked.
-            if (z > -4 && z < 5) {
-                if (type !== CollisionType.COIN) {
-                    isBlockedSide = true;
-                    score = -999999; // Impossible lane
-                }
-            }
+    // Trajectory of the current (or just finished) run, for saving as a ghost
+    public getGhostRecording(): GhostTrack {
+        return this.ghostRecorder.finish(this.sim);
+    }
 
-            if (type === CollisionType.COIN) {
-                score += 50; 
-            } else {
-                // Only consider threats IN FRONT for timing
-                if (z < 0) { 
-                     if (dist < distToThreat) {
-                        distToThreat = dist;
-                        threatType = type;
-                    }
-
-                    if (type === CollisionType.SOLID) {
-                        isDeadly = true;
-                        if (dist < firstSolidDist) firstSolidDist = dist;
-                        score -= (100000 / (dist + 1));
-                    } 
-                    else if (type === CollisionType.JUMP) {
-                        if (action === 'none') action = 'jump'; 
-                        score -= 100;
-                        if (this.isRolling && dist < 30) score -= 5000;
-                    } 
-                    else if (type === CollisionType.DUCK) {
-                        if (action === 'none') action = 'duck';
-                        score -= 100;
-                        if (this.isJumping && dist < 30) score -= 5000;
-                    }
-                }
-            }
+    // Positions the ghost mesh for this frame and reports how far ahead/behind the player is
+    private updateGhost(alpha: number): GhostStatus | null {
+        if (!this.ghostPlayback) return null;
+        const pose = this.ghostPlayback.poseAt(this.sim.tick - 1 + alpha);
+        if (!pose) return null;
+
+        const playerDistance = this.prevDistance + (this.sim.distanceTraveled - this.prevDistance) * alpha;
+        if (this.ghostMesh) {
+            this.ghostMesh.visible = !pose.finished;
+            this.ghostMesh.position.set(pose.x, pose.y, playerDistance - pose.distance);
+            this.ghostMesh.scale.y = pose.rolling ? 0.6 : 1;
         }
 
-        if (laneIdx === 0) score += 10;
-
-        return { lane: laneIdx, isDeadly, isBlockedSide, action, score, distanceToThreat: distToThreat, threatType, firstSolidDist };
+        return {
+            delta: playerDistance - pose.distance,
+            ghostDistance: pose.distance,
+            finished: pose.finished
+        };
     }
 
     // --- CONTROLS & HELPERS ---
-    public moveLeft() { if (this.currentLane > -1) this.currentLane--; }
-    public moveRight() { if (this.currentLane < 1) this.currentLane++; }
-    public setLane(l: number) { this.currentLane = l; }
-    public jump() {
-        if (!this.isJumping) {
-            this.isJumping = true;
-            this.playerVelocityY = this.config.jumpForce;
-            this.isRolling = false;
-        }
-    }
-    public roll() {
-        if (!this.isJumping && !this.isRolling) {
-            this.isRolling = true;
-            this.rollTimer = 40;
-        }
+    public moveLeft() { this.sim.input('left'); }
+    public moveRight() { this.sim.input('right'); }
+    public jump() { this.sim.input('jump'); }
+    public roll() { this.sim.input('roll'); }
+    public getSeed(): number { return this.seed; }
+    public get autoPilotEnabled(): boolean { return this.sim.autoPilotEnabled; }
+    public get autopilotId(): AutopilotId { return this.sim.autopilotId; }
+    // Switches bots, mid-run too; recorded so the replay swaps at the same tick
+    public setAutopilot(id: AutopilotId) {
+        this.botPreferred = id;
+        if (this.sim.isPlayback || this.sim.autopilotId === id) return;
+        this.sim.input(`bot:${id}`);
     }
     public toggleAutoPilot(v: boolean) {
-        this.autoPilotEnabled = v;
+        if (this.sim.isPlayback) return;
+        this.autoPilotPreferred = v;
+        this.sim.input(v ? 'autopilotOn' : 'autopilotOff');
         if (!v && this.player) {
             this.player.rotation.z = 0;
             this.player.visible = true;
@@ -906,42 +745,102 @@ export class GameEngine {
     }
 
     private createExplosion(pos: THREE.Vector3, color: number, count: number) {
+        if (this.accessibility.reducedMotion) return;
         for (let i = 0; i < count; i++) {
-            const geo = new THREE.BoxGeometry(0.1, 0.1, 0.1);
-            const mat = new THREE.MeshBasicMaterial({ color });
-            const m = new THREE.Mesh(geo, mat);
+            const m = this.pools.acquireParticle(color);
             m.position.copy(pos);
-            m.userData = {
-                vel: new THREE.Vector3((Math.random()-0.5), (Math.random()-0.5)+0.5, (Math.random()-0.5)),
-                life: 1.0
-            };
+            m.userData.vel ??= new THREE.Vector3();
+            m.userData.vel.set((this.fxRng.next()-0.5), (this.fxRng.next()-0.5)+0.5, (this.fxRng.next()-0.5)).multiplyScalar(60); // units/s
+            m.userData.life = 1.0;
             this.scene.add(m);
             this.particles.push(m);
         }
     }
 
-    private updateParticles() {
+    private updateParticles(dt: number) {
         for (let i = this.particles.length - 1; i >= 0; i--) {
             const p = this.particles[i];
-            p.userData.life -= 0.04;
-            p.position.add(p.userData.vel);
+            p.userData.life -= 2.4 * dt;
+            p.position.addScaledVector(p.userData.vel, dt);
             p.scale.setScalar(p.userData.life);
             if (p.userData.life <= 0) {
-                this.scene.remove(p);
+                this.pools.release(p);
                 this.particles.splice(i, 1);
             }
         }
     }
 
+    // Debug view: a flat profile over a long run means nothing is leaking
+    public getRenderStats(): RenderStats {
+        const info = this.renderer.info;
+        return {
+            quality: this.quality.setting === 'auto' ? `auto (${this.quality.level})` : this.quality.level,
+            frameTime: this.quality.averageFrameTime,
+            pools: this.pools.stats(),
+            geometries: info.memory.geometries,
+            textures: info.memory.textures,
+            drawCalls: info.render.calls
+        };
+    }
+
+    // --- ACCESSIBILITY ---
+    public setAccessibility(settings: AccessibilitySettings) {
+        this.accessibility = settings;
+        this.pools.setPalette(PALETTES[settings.palette].colors);
+        this.pools.setMarkers(settings.shapeMarkers);
+        if (this.glitterSystem) this.glitterSystem.visible = !settings.reducedMotion;
+        if (settings.reducedMotion) this.camera.position.x = 0;
+    }
+
+    // --- QUALITY ---
+    public setQuality(setting: QualitySetting) {
+        this.quality.setSetting(setting);
+        this.applyQuality();
+    }
+
+    public get qualityLevel(): QualityLevel {
+        return this.quality.level;
+    }
+
+    private applyQuality() {
+        const preset = QUALITY_PRESETS[this.quality.level];
+
+        const pixelRatio = Math.min(window.devicePixelRatio || 1, preset.pixelRatio);
+        if (pixelRatio !== this.appliedPixelRatio) {
+            this.renderer.setPixelRatio(pixelRatio);
+            this.appliedPixelRatio = pixelRatio;
+        }
+
+        this.renderer.shadowMap.enabled = preset.shadows;
+        if (this.sun) {
+            this.sun.castShadow = preset.shadows; // also changes the lights hash, so materials recompile without shadows
+            if (this.sun.shadow.mapSize.x !== preset.shadowMapSize) {
+                this.sun.shadow.mapSize.set(preset.shadowMapSize, preset.shadowMapSize);
+                this.sun.shadow.map?.dispose();
+                this.sun.shadow.map = null;
+            }
+        }
+
+        this.glitterSystem?.geometry.setDrawRange(0, preset.glitterCount);
+        this.weatherFx?.setRainBudget(preset.glitterCount);
+        this.updateAtmosphere(this.sim.distanceTraveled); // fog density depends on the preset
+        this.camera.far = preset.drawDistance;
+        this.camera.updateProjectionMatrix();
+        this.scenery?.setDensity(preset.sceneryDensity);
+    }
+
     private gameOver() {
         this.state = GameState.GAME_OVER;
         cancelAnimationFrame(this.animationId);
-        if (this.player) this.createExplosion(this.player.position, 0xff0000, 50);
-        if (this.player) this.player.visible = false;
-        this.onGameOver(this.score);
+        this.emit({ type: 'gameOver', cleared: this.sim.courseCleared });
+        if (this.player && !this.sim.courseCleared) {
+            this.createExplosion(new THREE.Vector3(this.sim.player.x, this.sim.player.y, 0), 0xff0000, 50);
+            this.player.visible = false;
+        }
+        this.onGameOver(this.sim.score);
     }
 
-    private onResize() {
+    private onResize = () => {
         this.camera.aspect = window.innerWidth / window.innerHeight;
         this.camera.updateProjectionMatrix();
         this.renderer.setSize(window.innerWidth, window.innerHeight);
@@ -953,5 +852,13 @@ export class GameEngine {
         if (this.container && this.renderer.domElement) {
             this.container.removeChild(this.renderer.domElement);
         }
+        this.clearObstacleViews();
+        this.particles.forEach(p => this.pools.release(p));
+        this.particles = [];
+        this.pools.dispose();
+        this.scenery?.dispose();
+        this.weatherFx?.dispose();
+        this.buildingTextures.flat().forEach(t => t.dispose());
+        this.renderer.dispose();
     }
 }
\ No newline at end of file
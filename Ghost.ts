@@ -0,0 +1,156 @@
+import { GameConfig } from './types';
+import { GameSimulation, resolveConfig } from './Simulation';
+import { ReplayFile, simulateReplay } from './Replay';
+
+export const GHOST_VERSION = 2;
+const SAMPLE_SPACING = 2; // distance units between trajectory samples
+const STORAGE_KEY = 'neon-runner.ghosts';
+const MAX_SAVED_GHOSTS = 8; // one best per config; the least recently improved are dropped
+
+// [tick, distance, x, y, rolling(0|1)], rounded to keep saved ghosts small
+export type GhostSample = [number, number, number, number, number];
+
+export interface GhostTrack {
+    version: number;
+    seed: number;
+    config: GameConfig; // the ghost is only raced on its own seed and config, so both runs see the same track
+    score: number;
+    distance: number; // where the run ended
+    samples: GhostSample[];
+}
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+// Samples the player's trajectory every SAMPLE_SPACING units of distance
+export class GhostRecorder {
+    private samples: GhostSample[] = [];
+    private nextSampleAt: number = 0;
+
+    public reset() {
+        this.samples = [];
+        this.nextSampleAt = 0;
+    }
+
+    public record(sim: GameSimulation) {
+        if (sim.distanceTraveled < this.nextSampleAt && !sim.isOver) return;
+        const p = sim.player;
+        this.samples.push([sim.tick, round2(sim.distanceTraveled), round2(p.x), round2(p.y), p.isRolling ? 1 : 0]);
+        this.nextSampleAt = sim.distanceTraveled + SAMPLE_SPACING;
+    }
+
+    public finish(sim: GameSimulation): GhostTrack {
+        return {
+            version: GHOST_VERSION,
+            seed: sim.seed,
+            config: { ...sim.config },
+            score: sim.score,
+            distance: round2(sim.distanceTraveled),
+            samples: this.samples.slice()
+        };
+    }
+}
+
+export interface GhostPose {
+    distance: number;
+    x: number;
+    y: number;
+    rolling: boolean;
+    finished: boolean; // the ghost's run has already ended at this time
+}
+
+// Read side: where the ghost is at a given (fractional) tick
+export class GhostPlayback {
+    public readonly track: GhostTrack;
+
+    constructor(track: GhostTrack) {
+        this.track = track;
+    }
+
+    public poseAt(tick: number): GhostPose | null {
+        const s = this.track.samples;
+        if (s.length === 0) return null;
+
+        const last = s[s.length - 1];
+        if (tick >= last[0]) {
+            return { distance: last[1], x: last[2], y: last[3], rolling: last[4] === 1, finished: true };
+        }
+
+        // Binary search for the last sample at or before `tick`
+        let lo = 0, hi = s.length - 1;
+        while (lo < hi) {
+            const mid = (lo + hi + 1) >> 1;
+            if (s[mid][0] <= tick) lo = mid; else hi = mid - 1;
+        }
+        const a = s[lo];
+        const b = s[Math.min(lo + 1, s.length - 1)];
+        const span = b[0] - a[0];
+        const t = span > 0 ? Math.max(0, Math.min(1, (tick - a[0]) / span)) : 0;
+
+        return {
+            distance: a[1] + (b[1] - a[1]) * t,
+            x: a[2] + (b[2] - a[2]) * t,
+            y: a[3] + (b[3] - a[3]) * t,
+            rolling: a[4] === 1,
+            finished: false
+        };
+    }
+}
+
+// Build a ghost from an imported replay by re-running it headlessly
+export function ghostFromReplay(replay: ReplayFile): GhostTrack {
+    const recorder = new GhostRecorder();
+    const sim = simulateReplay(replay, undefined, s => recorder.record(s));
+    return recorder.finish(sim);
+}
+
+export function isValidGhost(data: any): data is GhostTrack {
+    return !!data && data.version === GHOST_VERSION && typeof data.seed === 'number' &&
+        !!data.config && typeof data.config === 'object' &&
+        typeof data.distance === 'number' && Array.isArray(data.samples);
+}
+
+// Distances are only comparable between runs under the same config
+const configKey = (config: GameConfig) => JSON.stringify(resolveConfig(config));
+
+interface SavedGhost {
+    key: string;
+    ghost: GhostTrack;
+}
+
+function loadGhosts(): SavedGhost[] {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        const data = raw ? JSON.parse(raw) : [];
+        if (!Array.isArray(data)) return [];
+        return data.filter(isValidGhost).flatMap(ghost => {
+            try {
+                return [{ key: configKey(ghost.config), ghost }];
+            } catch {
+                return []; // its config no longer resolves
+            }
+        });
+    } catch {
+        return [];
+    }
+}
+
+// The personal-best ghost for runs under `config`
+export function loadBestGhost(config: GameConfig): GhostTrack | null {
+    const key = configKey(config);
+    return loadGhosts().find(g => g.key === key)?.ghost ?? null;
+}
+
+// Keeps the longest run under each config as its personal-best ghost; returns true when `track` replaced it
+export function saveIfBestGhost(track: GhostTrack): boolean {
+    const key = configKey(track.config);
+    const saved = loadGhosts();
+    const best = saved.find(g => g.key === key)?.ghost;
+    if (best && best.distance >= track.distance) return false;
+    const ghosts = [track, ...saved.filter(g => g.key !== key).map(g => g.ghost)].slice(0, MAX_SAVED_GHOSTS);
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(ghosts));
+        return true;
+    } catch {
+        return false;
+    }
+}
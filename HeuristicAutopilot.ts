@@ -0,0 +1,222 @@
+import { CollisionType, AIState, PowerUpType } from './types';
+import type { AutopilotController, AutopilotDecision, AutopilotObservation } from './Autopilot';
+import { HITBOX_DZ } from './Simulation';
+import { POWERUPS } from './PowerUps';
+
+export interface LaneAnalysis {
+    lane: number;
+    isDeadly: boolean; // Solid obstacle ahead
+    isBlockedSide: boolean; // Solid obstacle RIGHT HERE (Overlap)
+    action: 'none' | 'jump' | 'duck'; // Action required to survive
+    score: number; // Higher is better
+    distanceToThreat: number;
+    threatType: CollisionType | 'none';
+    firstSolidDist: number; // Distance to absolute block ahead
+}
+
+// Heuristic lane-scoring autopilot, the default bot
+export class HeuristicAutopilot implements AutopilotController {
+    private aiLaneChangeCooldown: number = 0; // seconds
+
+    public reset() {
+        this.aiLaneChangeCooldown = 0;
+    }
+
+    public decide(obs: AutopilotObservation, dt: number): AutopilotDecision {
+        if (this.aiLaneChangeCooldown > 0) this.aiLaneChangeCooldown -= dt;
+
+        const currentLane = obs.player.lane;
+        const currentSpeed = obs.speed;
+        // Rain and fog blind the autopilot as much as the player
+        const visionRange = Math.min(800 + (currentSpeed * 6.7), obs.visibility);
+
+        const analysis = [-1, 0, 1].map(l => this.analyzeLane(obs, l, visionRange));
+        const currentLaneStats = analysis.find(a => a.lane === currentLane)!;
+
+        // GLOBAL PATHFINDING
+        const bestLaneAnalysis = analysis.sort((a,b) => b.score - a.score)[0];
+
+        let targetLane = currentLane;
+        let aiAction: AIState['action'] = 'SCANNING';
+        let isEmergency = false;
+
+        // Threshold for imminent impact
+        if (currentLaneStats.firstSolidDist < (100 + currentSpeed / 3)) {
+            isEmergency = true;
+            this.aiLaneChangeCooldown = 0;
+        }
+
+        if (isEmergency) {
+            if (bestLaneAnalysis.lane !== currentLane) {
+                const diff = bestLaneAnalysis.lane - currentLane;
+                const direction = diff > 0 ? 1 : -1;
+                const nextStepLane = currentLane + direction;
+
+                const nextStepAnalysis = analysis.find(a => a.lane === nextStepLane)!;
+
+                // CRITICAL SAFETY CHECK:
+                // 1. Is the side lane BLOCKED right now? (Side Swipe Protection)
+                if (!nextStepAnalysis.isBlockedSide) {
+
+                    // 2. Forward safety:
+                    // Only move if it's safe OR if it's safer than staying (Panic Squeeze).
+                    // If next lane has a wall further away than current wall, take it.
+                    const isSafer = nextStepAnalysis.firstSolidDist > 20 &&
+                                   (nextStepAnalysis.firstSolidDist > currentLaneStats.firstSolidDist);
+
+                    // Or if it is completely safe
+                    const isSafe = nextStepAnalysis.firstSolidDist > 30;
+
+                    if (isSafe || isSafer) {
+                        targetLane = nextStepLane;
+                        aiAction = 'DODGE';
+                    }
+                } else {
+                    // Side is blocked. We MUST wait.
+                    // Hopefully we can jump/duck the current obstacle until side clears.
+                    aiAction = 'SCANNING'; // Holding pattern
+                }
+            }
+        } else {
+             // Optimize for coins/safety if not urgent
+             if (this.aiLaneChangeCooldown <= 0) {
+                 if (bestLaneAnalysis.score > currentLaneStats.score + 50 && bestLaneAnalysis.firstSolidDist > 300) {
+                     // Ensure we don't switch into a side-block even in non-emergency
+                     const targetStats = analysis.find(a => a.lane === bestLaneAnalysis.lane)!;
+                     if (!targetStats.isBlockedSide) {
+                        targetLane = bestLaneAnalysis.lane;
+                        aiAction = 'RUN';
+                        this.aiLaneChangeCooldown = 0.33;
+                     }
+                 }
+             }
+        }
+
+        // --- ACTION EXECUTION ---
+        const effectiveLaneStats = analysis.find(a => a.lane === targetLane)!;
+        let jump = false;
+        let roll = false;
+
+        if (effectiveLaneStats.action !== 'none') {
+            const dist = effectiveLaneStats.distanceToThreat;
+            const timeToImpact = dist / obs.speed; // seconds
+
+            if (effectiveLaneStats.action === 'jump') {
+                // Mid-air the press is buffered until landing, so time the jump from there
+                const wait = obs.timeToLand;
+                const impact = timeToImpact - wait;
+                if (impact < 0.42 && impact > 0.083 && wait <= obs.config.inputBuffer) {
+                    jump = true;
+                    aiAction = 'JUMP';
+                }
+            } else if (effectiveLaneStats.action === 'duck') {
+                // Mid-air a roll becomes a fast-fall; a roll about to run out gets another one queued
+                if (timeToImpact < 0.42 && timeToImpact > 0.083 && (!obs.player.isJumping || this.canFastFall(obs, targetLane, timeToImpact))) {
+                    roll = true;
+                    aiAction = 'DUCK';
+                }
+            }
+        }
+
+        // A wall ahead and no lane to dodge into: boxed in
+        const confidence = isEmergency ? (targetLane === currentLane ? 0 : 20) : 100;
+        return {
+            lane: targetLane,
+            jump,
+            roll,
+            report: {
+                action: aiAction,
+                confidence,
+                nearestThreatDist: Math.floor(currentLaneStats.distanceToThreat),
+                visionRange: Math.floor(visionRange),
+                laneScores: analysis.sort((a,b) => a.lane - b.lane).map(a => a.score),
+                status: this.explain(aiAction, confidence, targetLane !== currentLane)
+            }
+        };
+    }
+
+    private explain(action: AIState['action'], confidence: number, changingLane: boolean): string {
+        if (confidence === 0) return "PANIC: EVASIVE MANEUVERS";
+        if (action === 'DODGE') return "AVOIDING SOLID OBSTACLE";
+        if (changingLane) return "OPTIMIZING PATH (COINS)";
+        if (action === 'JUMP') return "DETECTED BARRIER - JUMPING";
+        if (action === 'DUCK') return "DETECTED OVERHEAD - ROLLING";
+        return "CRUISING";
+    }
+
+    // Slamming down is only safe if the roll starts before the drone arrives and no barrier is still underneath
+    private canFastFall(obs: AutopilotObservation, lane: number, timeToImpact: number): boolean {
+        if (obs.config.fastFallSpeed <= 0) return false;
+        const fall = obs.fastFallTime;
+        if (fall > timeToImpact - 0.05) return false;
+        const reach = fall * obs.speed + HITBOX_DZ;
+        return !obs.lanes[lane + 1].obstacles.some(o => o.type === CollisionType.JUMP && o.distance < reach && o.distance > -HITBOX_DZ);
+    }
+
+    public analyzeLane(obs: AutopilotObservation, laneIdx: number, range: number): LaneAnalysis {
+        let isDeadly = false;
+        let isBlockedSide = false;
+        let action: 'none' | 'jump' | 'duck' = 'none';
+        let score = 5000;
+        let distToThreat = 9999;
+        let firstSolidDist = 9999;
+        let threatType: CollisionType | 'none' = 'none';
+
+        // Observations already run nearest first and include obstacles just passed
+        const laneObs = obs.lanes[laneIdx + 1].obstacles.filter(o => o.distance < range);
+
+        for (const o of laneObs) {
+            const type = o.type;
+            const z = -o.distance;
+            const dist = Math.abs(z);
+            const isPickup = type === CollisionType.COIN || type === CollisionType.POWERUP;
+
+            // SIDE SWIPE CHECK:
+            // Player is roughly at Z=0. Objects move +Z.
+            // If object is between -4 (approaching) and +5 (passed but close),
+            // the side is blocked.
+            if (z > -4 && z < 5) {
+                if (!isPickup) {
+                    isBlockedSide = true;
+                    score = -999999; // Impossible lane
+                }
+            }
+
+            if (type === CollisionType.COIN) {
+                score += 50;
+            } else if (type === CollisionType.POWERUP) {
+                // A second shield is only worth its overflow bonus
+                const alreadyShielded = o.powerUp === PowerUpType.SHIELD && obs.shielded;
+                score += alreadyShielded ? 50 : POWERUPS[o.powerUp!].aiValue;
+            } else {
+                // Only consider threats IN FRONT for timing
+                if (z < 0) {
+                     if (dist < distToThreat) {
+                        distToThreat = dist;
+                        threatType = type;
+                    }
+
+                    if (type === CollisionType.SOLID) {
+                        isDeadly = true;
+                        if (dist < firstSolidDist) firstSolidDist = dist;
+                        score -= (100000 / (dist + 1));
+                    }
+                    else if (type === CollisionType.JUMP) {
+                        if (action === 'none') action = 'jump';
+                        score -= 100;
+                        if (obs.player.isRolling && dist < 30) score -= 5000;
+                    }
+                    else if (type === CollisionType.DUCK) {
+                        if (action === 'none') action = 'duck';
+                        score -= 100;
+                        if (obs.player.isJumping && dist < 30 && obs.config.fastFallSpeed <= 0) score -= 5000;
+                    }
+                }
+            }
+        }
+
+        if (laneIdx === 0) score += 10;
+
+        return { lane: laneIdx, isDeadly, isBlockedSide, action, score, distanceToThreat: distToThreat, threatType, firstSolidDist };
+    }
+}
@@ -0,0 +1,259 @@
+const STORAGE_KEY = 'neon-runner.bindings';
+
+export type InputAction = 'left' | 'right' | 'jump' | 'roll' | 'pause' | 'autopilot' | 'mute';
+export type MenuNav = 'up' | 'down' | 'left' | 'right' | 'confirm' | 'back';
+
+export const INPUT_ACTIONS: InputAction[] = ['left', 'right', 'jump', 'roll', 'pause', 'autopilot', 'mute'];
+
+export const ACTION_LABELS: Record<InputAction, string> = {
+    left: 'MOVE LEFT',
+    right: 'MOVE RIGHT',
+    jump: 'JUMP',
+    roll: 'ROLL',
+    pause: 'PAUSE',
+    autopilot: 'AUTO-PILOT',
+    mute: 'MUTE'
+};
+
+// Keys are KeyboardEvent.key values, single characters lower-cased
+export type KeyBindings = Record<InputAction, string[]>;
+
+export const BINDING_SLOTS = 2;
+
+export const DEFAULT_BINDINGS: KeyBindings = {
+    left: ['ArrowLeft', 'a'],
+    right: ['ArrowRight', 'd'],
+    jump: ['ArrowUp', ' '],
+    roll: ['ArrowDown', 's'],
+    pause: ['Escape', 'p'],
+    autopilot: ['t'],
+    mute: ['m']
+};
+
+// --- GAMEPAD ---
+// Standard mapping (https://w3c.github.io/gamepad/#remapping)
+type PadControl = 'up' | 'down' | 'left' | 'right' | 'a' | 'b' | 'y' | 'select' | 'start';
+
+const PAD_BUTTONS: Record<PadControl, number> = { a: 0, b: 1, y: 3, select: 8, start: 9, up: 12, down: 13, left: 14, right: 15 };
+const PAD_CONTROLS = Object.keys(PAD_BUTTONS) as PadControl[];
+
+const PAD_BINDINGS: Record<InputAction, PadControl[]> = {
+    left: ['left'],
+    right: ['right'],
+    jump: ['up', 'a'],
+    roll: ['down', 'b'],
+    pause: ['start'],
+    autopilot: ['y'],
+    mute: ['select']
+};
+
+const PAD_NAV: Partial<Record<PadControl, MenuNav>> = { up: 'up', down: 'down', left: 'left', right: 'right', a: 'confirm', b: 'back' };
+
+const STICK_PRESS = 0.5; // left stick counts as a d-pad press past this...
+const STICK_DEADZONE = 0.25; // ...and releases once back inside this
+const REPEAT_DELAY = 0.35; // seconds a direction is held before it repeats
+const REPEAT_INTERVAL = 0.12;
+
+const DIRECTIONS: PadControl[] = ['up', 'down', 'left', 'right'];
+
+export interface InputHandler {
+    // Return true when the action was used, so the key's default browser behaviour is suppressed
+    action: (action: InputAction, repeat: boolean) => boolean;
+    navigate: (nav: MenuNav) => void;
+}
+
+function normalizeKey(key: string): string {
+    return key.length === 1 ? key.toLowerCase() : key;
+}
+
+export function keyLabel(key: string): string {
+    switch (key) {
+        case ' ': return 'SPACE';
+        case 'ArrowLeft': return '←';
+        case 'ArrowRight': return '→';
+        case 'ArrowUp': return '↑';
+        case 'ArrowDown': return '↓';
+        case 'Escape': return 'ESC';
+        default: return key.toUpperCase();
+    }
+}
+
+export function bindingHint(bindings: KeyBindings, action: InputAction): string {
+    return bindings[action].map(keyLabel).join(' / ') || 'UNBOUND';
+}
+
+export function actionForKey(bindings: KeyBindings, key: string): InputAction | null {
+    const k = normalizeKey(key);
+    return INPUT_ACTIONS.find(a => bindings[a].includes(k)) ?? null;
+}
+
+// Puts `key` in the given slot of `action`, taking it off whatever action had it before. null clears the slot.
+export function rebind(bindings: KeyBindings, action: InputAction, slot: number, key: string | null): KeyBindings {
+    const k = key === null ? null : normalizeKey(key);
+    const next = {} as KeyBindings;
+    INPUT_ACTIONS.forEach(a => next[a] = bindings[a].filter(b => b !== k));
+    const keys = [...bindings[action]];
+    if (k === null) keys.splice(slot, 1);
+    else keys[Math.min(slot, keys.length)] = k;
+    next[action] = keys.filter((b, i) => keys.indexOf(b) === i).slice(0, BINDING_SLOTS);
+    return next;
+}
+
+interface HeldControl {
+    held: number; // seconds
+    nextRepeat: number;
+}
+
+// Keyboard and gamepad front end: turns raw input into actions (and menu navigation for the pad),
+// so App never deals with key names or button indices.
+export class InputManager {
+    private bindings: KeyBindings;
+    private handler: InputHandler;
+    private held: Map<PadControl, HeldControl> = new Map();
+    private capture: ((key: string) => void) | null = null;
+    private frame: number = 0;
+    private lastPoll: number = 0;
+
+    constructor(bindings: KeyBindings, handler: InputHandler) {
+        this.bindings = bindings;
+        this.handler = handler;
+        window.addEventListener('keydown', this.handleKey);
+        this.frame = requestAnimationFrame(this.poll);
+    }
+
+    public setBindings(bindings: KeyBindings) {
+        this.bindings = bindings;
+    }
+
+    // The next key press goes to `callback` instead of triggering an action (rebinding UI)
+    public captureNextKey(callback: ((key: string) => void) | null) {
+        this.capture = callback;
+    }
+
+    private handleKey = (e: KeyboardEvent) => {
+        if (this.capture) {
+            e.preventDefault();
+            const callback = this.capture;
+            this.capture = null;
+            callback(e.key);
+            return;
+        }
+        // Leave typing in the seed and name fields alone
+        const target = e.target as HTMLElement | null;
+        if (target && (target.tagName === 'TEXTAREA' || (target.tagName === 'INPUT' && (target as HTMLInputElement).type !== 'range'))) return;
+
+        const action = actionForKey(this.bindings, e.key);
+        if (!action) return;
+        // Holding a movement key keeps stepping lanes; toggles only fire once
+        const toggle = action === 'pause' || action === 'autopilot' || action === 'mute';
+        if (e.repeat && toggle) return;
+        if (this.handler.action(action, e.repeat)) e.preventDefault();
+    }
+
+    private poll = (time: number) => {
+        this.frame = requestAnimationFrame(this.poll);
+        const dt = this.lastPoll ? Math.min(0.1, (time - this.lastPoll) / 1000) : 0;
+        this.lastPoll = time;
+
+        const pads = navigator.getGamepads ? Array.from(navigator.getGamepads()).filter((p): p is Gamepad => !!p && p.connected) : [];
+        if (pads.length === 0) {
+            this.held.clear();
+            return;
+        }
+
+        const down = new Set<PadControl>();
+        for (const pad of pads) {
+            PAD_CONTROLS.forEach(c => { if (pad.buttons[PAD_BUTTONS[c]]?.pressed) down.add(c); });
+            this.readStick(pad.axes[0] ?? 0, 'left', 'right', down);
+            this.readStick(pad.axes[1] ?? 0, 'up', 'down', down);
+        }
+
+        this.held.forEach((_, c) => { if (!down.has(c)) this.held.delete(c); });
+        down.forEach(c => {
+            const state = this.held.get(c);
+            if (!state) {
+                this.held.set(c, { held: 0, nextRepeat: REPEAT_DELAY });
+                this.press(c, false);
+                return;
+            }
+            state.held += dt;
+            if (DIRECTIONS.includes(c) && state.held >= state.nextRepeat) {
+                state.nextRepeat += REPEAT_INTERVAL;
+                this.press(c, true);
+            }
+        });
+    }
+
+    // Hysteresis around the deadzone so a stick resting near the threshold doesn't chatter
+    private readStick(value: number, negative: PadControl, positive: PadControl, down: Set<PadControl>) {
+        const threshold = (c: PadControl) => this.held.has(c) ? STICK_DEADZONE : STICK_PRESS;
+        if (value <= -threshold(negative)) down.add(negative);
+        if (value >= threshold(positive)) down.add(positive);
+    }
+
+    private press(control: PadControl, repeat: boolean) {
+        INPUT_ACTIONS.forEach(a => { if (PAD_BINDINGS[a].includes(control)) this.handler.action(a, repeat); });
+        const nav = PAD_NAV[control];
+        if (nav) this.handler.navigate(nav);
+    }
+
+    public dispose() {
+        window.removeEventListener('keydown', this.handleKey);
+        cancelAnimationFrame(this.frame);
+    }
+}
+
+// --- MENU NAVIGATION ---
+// Moves focus through the visible controls of the open dialog (or the whole page) in document order
+export function navigateFocus(nav: MenuNav) {
+    const root = document.querySelector<HTMLElement>('[aria-modal="true"]') ?? document.body;
+    const items = Array.from(root.querySelectorAll<HTMLElement>('button:not([disabled]), input:not([type="file"]):not([disabled]), select'))
+        .filter(el => el.offsetParent !== null);
+    if (items.length === 0) return;
+
+    const current = document.activeElement as HTMLElement | null;
+    const index = current ? items.indexOf(current) : -1;
+    if (index < 0) {
+        items[0].focus({ focusVisible: true } as FocusOptions);
+        return;
+    }
+
+    if (nav === 'confirm') {
+        current!.click();
+        return;
+    }
+    if ((nav === 'left' || nav === 'right') && current instanceof HTMLInputElement && current.type === 'range') {
+        if (nav === 'left') current.stepDown();
+        else current.stepUp();
+        current.dispatchEvent(new Event('input', { bubbles: true }));
+        return;
+    }
+    if (nav === 'back') return;
+    const step = nav === 'up' || nav === 'left' ? -1 : 1;
+    items[(index + step + items.length) % items.length].focus({ focusVisible: true } as FocusOptions);
+}
+
+export function loadBindings(): KeyBindings {
+    try {
+        const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+        if (!raw || typeof raw !== 'object') return { ...DEFAULT_BINDINGS };
+        const bindings = {} as KeyBindings;
+        INPUT_ACTIONS.forEach(a => {
+            const keys = raw[a];
+            bindings[a] = Array.isArray(keys) && keys.every(k => typeof k === 'string')
+                ? keys.slice(0, BINDING_SLOTS)
+                : [...DEFAULT_BINDINGS[a]];
+        });
+        return bindings;
+    } catch {
+        return { ...DEFAULT_BINDINGS };
+    }
+}
+
+export function saveBindings(bindings: KeyBindings) {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+    } catch {
+        // ignore
+    }
+}
@@ -0,0 +1,115 @@
+import { RunStats } from './types';
+
+const STORAGE_KEY = 'neon-runner.leaderboard';
+const NAME_KEY = 'neon-runner.last-name';
+export const LEADERBOARD_VERSION = 1;
+export const LEADERBOARD_SIZE = 10;
+
+export interface LeaderboardEntry {
+    name: string;
+    score: number;
+    date: string; // ISO timestamp
+    distance: number;
+    coins: number;
+    maxSpeed: number; // units/s
+    autopilotUsed: boolean;
+    seed: number;
+}
+
+// Autopilot-assisted (and slowed-down) runs are ranked in their own table so they never displace human scores
+export interface Leaderboard {
+    version: number;
+    human: LeaderboardEntry[];
+    assisted: LeaderboardEntry[];
+}
+
+const emptyLeaderboard = (): Leaderboard => ({ version: LEADERBOARD_VERSION, human: [], assisted: [] });
+
+// Upgrades older saved schemas; unknown versions are discarded rather than misread
+function migrate(data: any): Leaderboard {
+    if (!data || typeof data !== 'object') return emptyLeaderboard();
+    switch (data.version) {
+        case 1:
+            return {
+                version: LEADERBOARD_VERSION,
+                human: Array.isArray(data.human) ? data.human : [],
+                assisted: Array.isArray(data.assisted) ? data.assisted : []
+            };
+        default:
+            return emptyLeaderboard();
+    }
+}
+
+export function loadLeaderboard(): Leaderboard {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        return raw ? migrate(JSON.parse(raw)) : emptyLeaderboard();
+    } catch {
+        return emptyLeaderboard();
+    }
+}
+
+function saveLeaderboard(board: Leaderboard) {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(board));
+    } catch {
+        // Storage full or disabled: the table just won't persist
+    }
+}
+
+const tableFor = (board: Leaderboard, stats: RunStats) => stats.autopilotUsed || stats.slowed ? board.assisted : board.human;
+
+export function qualifies(stats: RunStats, board: Leaderboard = loadLeaderboard()): boolean {
+    if (stats.score <= 0) return false;
+    const table = tableFor(board, stats);
+    return table.length < LEADERBOARD_SIZE || stats.score > table[table.length - 1].score;
+}
+
+// Beats the current #1 of its own table
+export function isNewBest(stats: RunStats, board: Leaderboard = loadLeaderboard()): boolean {
+    if (stats.score <= 0) return false;
+    const table = tableFor(board, stats);
+    return table.length === 0 || stats.score > table[0].score;
+}
+
+// Inserts the run and returns its 1-based rank, or 0 if it didn't make the table
+export function addEntry(stats: RunStats, name: string): number {
+    const board = loadLeaderboard();
+    if (!qualifies(stats, board)) return 0;
+
+    const entry: LeaderboardEntry = {
+        name: name.trim().toUpperCase().slice(0, 3) || '???',
+        score: stats.score,
+        date: new Date().toISOString(),
+        distance: Math.floor(stats.distance),
+        coins: stats.coins,
+        maxSpeed: Math.round(stats.maxSpeed),
+        autopilotUsed: stats.autopilotUsed,
+        seed: stats.seed
+    };
+
+    const table = tableFor(board, stats);
+    table.push(entry);
+    table.sort((a, b) => b.score - a.score);
+    table.splice(LEADERBOARD_SIZE);
+    saveLeaderboard(board);
+    saveLastName(entry.name);
+
+    return table.indexOf(entry) + 1;
+}
+
+export function loadLastName(): string {
+    try {
+        return localStorage.getItem(NAME_KEY) || '';
+    } catch {
+        return '';
+    }
+}
+
+function saveLastName(name: string) {
+    try {
+        localStorage.setItem(NAME_KEY, name);
+    } catch {
+        // ignore
+    }
+}
@@ -0,0 +1,52 @@
+import { PoolStats } from './types';
+
+// Hands out recycled objects instead of building new ones; `reset` runs on release so a reused object starts clean
+export class ObjectPool<T> {
+    public readonly name: string;
+    private factory: () => T;
+    private reset?: (item: T) => void;
+    private free: T[] = [];
+    private created: number = 0;
+    private inUse: number = 0;
+    private peak: number = 0;
+
+    constructor(name: string, factory: () => T, reset?: (item: T) => void) {
+        this.name = name;
+        this.factory = factory;
+        this.reset = reset;
+    }
+
+    public prewarm(count: number) {
+        while (this.created < count) {
+            this.free.push(this.factory());
+            this.created++;
+        }
+    }
+
+    public acquire(): T {
+        let item = this.free.pop();
+        if (item === undefined) {
+            item = this.factory();
+            this.created++;
+        }
+        this.inUse++;
+        if (this.inUse > this.peak) this.peak = this.inUse;
+        return item;
+    }
+
+    public release(item: T) {
+        this.reset?.(item);
+        this.free.push(item);
+        this.inUse--;
+    }
+
+    public stats(): PoolStats {
+        return { name: this.name, created: this.created, inUse: this.inUse, free: this.free.length, peak: this.peak };
+    }
+
+    // Drops idle objects; anything still in use is the caller's to release
+    public clear() {
+        this.created -= this.free.length;
+        this.free = [];
+    }
+}
@@ -0,0 +1,315 @@
+import { CollisionType, AIState, AIPlan, GameConfig, PlayerState, PowerUpType } from './types';
+import type { AutopilotController, AutopilotDecision, AutopilotObservation, AutopilotReport } from './Autopilot';
+import {
+    COIN_REACH_Y, HITBOX_DX, HITBOX_DZ, JUMP_CLEARANCE_Y, pressJump, pressLane, pressRoll, stepPlayer
+} from './Simulation';
+import { POWERUPS } from './PowerUps';
+
+const HORIZON = 60; // ticks searched ahead
+const SEGMENT = 8; // ticks between moves after the first, which is a single tick so presses are timed exactly
+const BEAM = 16; // plans kept after each step
+const REPLAN_TICKS = 4; // a safe plan is followed this long before searching again
+const COIN_VALUE = 50;
+const CLEARANCE_CAP = 200; // metres of open lane worth having at the end of a plan
+const CLEARANCE_WEIGHT = 0.5; // per metre, so a plan doesn't end right in front of a wall it can't see past
+const MAX_PICKUPS = 30; // nearest pickups tracked per search; the collected set is a bit field
+
+type Move = 'stay' | 'left' | 'right' | 'jump' | 'roll';
+const MOVES: Move[] = ['stay', 'left', 'right', 'jump', 'roll'];
+const MOVE_COST: Record<Move, number> = { stay: 0, left: 2, right: 2, jump: 3, roll: 3 };
+const MOVE_LABELS: Record<Move, string> = { stay: 'RUN', left: 'LEFT', right: 'RIGHT', jump: 'JUMP', roll: 'ROLL' };
+
+interface Target {
+    lane: number;
+    type: CollisionType;
+    distance: number;
+    height?: number;
+    value: number; // pickups only
+    bit: number; // pickups only: its flag in Plan.collected
+}
+
+interface Plan {
+    player: PlayerState;
+    move: Move | null; // the last move; earlier ones are up the parent chain
+    parent: Plan | null;
+    first: Move | null;
+    ticks: number; // ticks simulated (and survived, if alive)
+    value: number;
+    coins: number;
+    collected: number;
+    alive: boolean;
+    rank: number; // value plus how much open lane is left at the end
+}
+
+function clonePlayer(p: PlayerState): PlayerState {
+    return {
+        lane: p.lane, x: p.x, y: p.y, isJumping: p.isJumping, isRolling: p.isRolling, velocityY: p.velocityY,
+        rollTimer: p.rollTimer, fastFalling: p.fastFalling, jumpBuffer: p.jumpBuffer, rollBuffer: p.rollBuffer, rollGrace: p.rollGrace
+    };
+}
+
+function movesOf(plan: Plan): Move[] {
+    const moves: Move[] = [];
+    for (let p: Plan | null = plan; p?.move; p = p.parent) moves.unshift(p.move);
+    return moves;
+}
+
+// The plan being followed: a press (or none) per tick and the player state it should lead to
+interface Schedule {
+    moves: Move[];
+    states: string[]; // stateKey before each tick
+    report: AutopilotReport;
+    age: number;
+}
+
+// Searches the lane/jump/roll action tree over the next HORIZON ticks, stepping the player with the
+// simulation's own stepPlayer and presses under autopilot and testing every tick against the simulation's hitboxes.
+// A beam search keeps it to a few thousand simulated ticks per decision. The track is assumed to keep
+// accelerating at speedIncrement; power-ups and shields are ignored, so a plan marked safe clears on its own.
+// Since the model matches the simulation, a safe plan is followed for REPLAN_TICKS before searching again,
+// unless the player drifts from where it predicted (a manual press, say).
+export class PlannerAutopilot implements AutopilotController {
+    private schedule: Schedule | null = null;
+
+    public reset() {
+        this.schedule = null;
+    }
+
+    public decide(obs: AutopilotObservation, dt: number): AutopilotDecision {
+        const s = this.schedule;
+        if (s && ++s.age < REPLAN_TICKS && this.stateKey(obs.player) === s.states[s.age]) {
+            return this.decision(obs, s.moves[s.age], s.report);
+        }
+        this.schedule = null;
+        return this.plan(obs, dt);
+    }
+
+    private plan(obs: AutopilotObservation, dt: number): AutopilotDecision {
+        const config = obs.config;
+
+        // How far the track will have moved after each tick
+        const offsets = [0];
+        for (let k = 1, speed = obs.speed; k <= HORIZON; k++) {
+            offsets.push(offsets[k - 1] + speed * dt);
+            speed = Math.min(config.maxSpeed, speed + config.speedIncrement * dt);
+        }
+        const reach = offsets[HORIZON] + HITBOX_DZ;
+
+        const targets: Target[] = [];
+        const pickups: Target[] = [];
+        const solids: number[][] = [[], [], []];
+        for (const lane of obs.lanes) {
+            for (const o of lane.obstacles) {
+                if (o.type === CollisionType.SOLID && o.distance > -HITBOX_DZ) solids[lane.lane + 1].push(o.distance);
+                if (o.distance <= -HITBOX_DZ || o.distance >= reach) continue;
+                const isPickup = o.type === CollisionType.COIN || o.type === CollisionType.POWERUP;
+                const target: Target = { lane: lane.lane, type: o.type, distance: o.distance, height: o.height, value: 0, bit: 0 };
+                if (isPickup) {
+                    const shieldOverflow = o.powerUp === PowerUpType.SHIELD && obs.shielded;
+                    target.value = o.type === CollisionType.COIN || shieldOverflow ? COIN_VALUE : POWERUPS[o.powerUp!].aiValue;
+                    pickups.push(target);
+                } else {
+                    targets.push(target);
+                }
+            }
+        }
+        // Only the nearest pickups fit in the collected bit field; the rest are left out rather than scored every tick
+        pickups.sort((a, b) => a.distance - b.distance).slice(0, MAX_PICKUPS).forEach((t, i) => {
+            t.bit = 1 << i;
+            targets.push(t);
+        });
+        // Which targets overlap the player's row on each tick doesn't depend on the plan
+        const overlapping: Target[][] = offsets.map(offset => targets.filter(t => Math.abs(offset - t.distance) < HITBOX_DZ));
+
+        const clearance = (plan: Plan) => {
+            const wall = solids[plan.player.lane + 1].find(d => d - offsets[plan.ticks] > -HITBOX_DZ);
+            return CLEARANCE_WEIGHT * Math.min(CLEARANCE_CAP, wall === undefined ? CLEARANCE_CAP : wall - offsets[plan.ticks]);
+        };
+
+        // --- SEARCH ---
+        const root: Plan = {
+            player: clonePlayer(obs.player), move: null, parent: null, first: null,
+            ticks: 0, value: 0, coins: 0, collected: 0, alive: true, rank: 0
+        };
+        let frontier: Plan[] = [root];
+        let bestCrash: Plan | null = null;
+        const finished: Plan[] = [];
+
+        while (frontier.length) {
+            const ticks = frontier[0].ticks === 0 ? 1 : Math.min(SEGMENT, HORIZON - frontier[0].ticks);
+            const seen = new Map<string, Plan>();
+
+            for (const plan of frontier) {
+                for (const move of MOVES) {
+                    const player = clonePlayer(plan.player);
+                    if (!this.press(player, move, config)) continue;
+                    const child: Plan = {
+                        player, move, parent: plan, first: plan.first ?? move,
+                        ticks: plan.ticks, value: plan.value - MOVE_COST[move],
+                        coins: plan.coins, collected: plan.collected, alive: true, rank: 0
+                    };
+                    this.advance(child, ticks, overlapping, config, dt);
+
+                    if (!child.alive) {
+                        if (!bestCrash || child.ticks > bestCrash.ticks || (child.ticks === bestCrash.ticks && child.value > bestCrash.value)) bestCrash = child;
+                        continue;
+                    }
+                    // Plans that end up in the same state have the same future; keep the better one
+                    const key = this.stateKey(child.player);
+                    const twin = seen.get(key);
+                    if (!twin || child.value > twin.value) seen.set(key, child);
+                }
+            }
+
+            const next = [...seen.values()];
+            next.forEach(p => p.rank = p.value + clearance(p));
+            next.sort((a, b) => b.rank - a.rank);
+            if (next.length && next[0].ticks >= HORIZON) {
+                finished.push(...next);
+                break;
+            }
+            // The best plan behind each first move stays in, so there are always alternatives to weigh and report
+            frontier = next.slice(0, BEAM);
+            for (const plan of next) if (!frontier.some(p => p.first === plan.first)) frontier.push(plan);
+        }
+
+        // --- CHOICE ---
+        const safe = finished.length > 0;
+        const best = safe ? finished[0] : bestCrash!;
+        const first = best.first!;
+
+        // Best plan for each first move, and through it each lane
+        const byFirst = new Map<Move, Plan>();
+        for (const plan of finished) if (!byFirst.has(plan.first!)) byFirst.set(plan.first!, plan);
+        const laneScores = [-1, 0, 1].map(lane => {
+            const scores = [...byFirst.values()].filter(p => this.laneAfter(obs.player.lane, p.first!) === lane).map(p => p.rank);
+            return scores.length ? Math.round(Math.max(...scores)) : -999999;
+        });
+
+        const summary = (plan: Plan, ok: boolean): AIPlan => ({
+            moves: movesOf(plan).map(m => MOVE_LABELS[m]),
+            value: Math.round(ok ? plan.rank : plan.value),
+            safe: ok
+        });
+        const alternatives = [...byFirst.entries()].filter(([m]) => m !== first).slice(0, 2).map(([, p]) => summary(p, true));
+
+        const report: AutopilotReport = {
+            action: safe ? 'RUN' : 'SCANNING',
+            confidence: safe ? 100 : Math.round(50 * best.ticks / HORIZON),
+            nearestThreatDist: 9999,
+            visionRange: Math.floor(Math.min(obs.visibility, offsets[HORIZON])),
+            laneScores,
+            status: this.explain(first, safe, best.coins),
+            plan: summary(best, safe),
+            alternatives
+        };
+
+        if (safe) {
+            // Lay the moves out per tick and predict where they take the player
+            const moves: Move[] = new Array(REPLAN_TICKS).fill('stay');
+            movesOf(best).forEach((m, i) => {
+                const tick = i === 0 ? 0 : 1 + (i - 1) * SEGMENT;
+                if (tick < REPLAN_TICKS) moves[tick] = m;
+            });
+            const player = clonePlayer(obs.player);
+            const states = [this.stateKey(player)];
+            for (const m of moves) {
+                this.press(player, m, config);
+                stepPlayer(player, config, true, dt);
+                states.push(this.stateKey(player));
+            }
+            this.schedule = { moves, states, report, age: 0 };
+        }
+        return this.decision(obs, first, report);
+    }
+
+    private decision(obs: AutopilotObservation, move: Move, report: AutopilotReport): AutopilotDecision {
+        const lane = this.laneAfter(obs.player.lane, move);
+        const threat = obs.lanes[obs.player.lane + 1].obstacles.find(o => o.distance > 0 && o.type !== CollisionType.COIN && o.type !== CollisionType.POWERUP);
+        const action: AIState['action'] = report.action === 'SCANNING' ? 'SCANNING'
+            : move === 'jump' ? 'JUMP'
+            : move === 'roll' ? 'DUCK'
+            : lane !== obs.player.lane ? 'DODGE'
+            : 'RUN';
+
+        return {
+            lane,
+            jump: move === 'jump',
+            roll: move === 'roll',
+            report: { ...report, action, nearestThreatDist: Math.floor(threat ? threat.distance : 9999) }
+        };
+    }
+
+    private explain(first: Move, safe: boolean, coins: number): string {
+        if (!safe) return "NO SAFE PATH - BUYING TIME";
+        if (first === 'left' || first === 'right') return "CHANGING LANE ON PLAN";
+        if (first === 'jump') return "JUMPING ON PLAN";
+        if (first === 'roll') return "ROLLING ON PLAN";
+        if (coins > 0) return `PATH CLEAR - ${coins} COIN${coins > 1 ? 'S' : ''} AHEAD`;
+        return "PATH CLEAR";
+    }
+
+    private laneAfter(lane: number, move: Move): number {
+        if (move === 'left') return lane - 1;
+        if (move === 'right') return lane + 1;
+        return lane;
+    }
+
+    // Applies a press through the simulation's own press rules; false when it would change nothing,
+    // or only re-queue a press already buffered, so the search doesn't branch on it
+    private press(p: PlayerState, move: Move, config: GameConfig): boolean {
+        switch (move) {
+            case 'stay': return true;
+            case 'left':
+            case 'right': {
+                const lane = this.laneAfter(p.lane, move);
+                if (lane < -1 || lane > 1) return false;
+                pressLane(p, lane);
+                return true;
+            }
+            case 'jump':
+                if (p.isJumping && (p.jumpBuffer > 0 || config.inputBuffer <= 0)) return false;
+                pressJump(p, config);
+                return true;
+            case 'roll':
+                if (p.isJumping && (config.fastFallSpeed <= 0 || p.fastFalling)) return false;
+                if (p.isRolling && (p.rollBuffer > 0 || config.inputBuffer <= 0)) return false;
+                pressRoll(p, config);
+                return true;
+        }
+    }
+
+    private advance(plan: Plan, ticks: number, overlapping: Target[][], config: GameConfig, dt: number) {
+        const p = plan.player;
+        for (let i = 0; i < ticks; i++) {
+            const k = plan.ticks + 1;
+            stepPlayer(p, config, true, dt);
+
+            for (const t of overlapping[k]) {
+                if (Math.abs(t.lane * config.laneWidth - p.x) >= HITBOX_DX) continue;
+
+                if (t.type === CollisionType.COIN || t.type === CollisionType.POWERUP) {
+                    if (t.height !== undefined && Math.abs(t.height - p.y) >= COIN_REACH_Y) continue;
+                    if (plan.collected & t.bit) continue;
+                    plan.collected |= t.bit;
+                    plan.value += t.value;
+                    if (t.type === CollisionType.COIN) plan.coins++;
+                    continue;
+                }
+
+                const safe = (t.type === CollisionType.JUMP && p.y > JUMP_CLEARANCE_Y) ||
+                    (t.type === CollisionType.DUCK && (p.isRolling || p.rollGrace > 0));
+                if (!safe) {
+                    plan.alive = false;
+                    return;
+                }
+            }
+            plan.ticks = k;
+        }
+    }
+
+    private stateKey(p: PlayerState): string {
+        const r = (v: number) => Math.round(v * 1000);
+        return `${p.lane}|${r(p.x)}|${r(p.y)}|${r(p.velocityY)}|${+p.isJumping}${+p.isRolling}${+p.fastFalling}|${r(p.rollTimer)}|${r(p.jumpBuffer)}|${r(p.rollBuffer)}|${r(p.rollGrace)}`;
+    }
+}
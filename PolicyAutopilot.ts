@@ -0,0 +1,155 @@
+import type { AutopilotController, AutopilotDecision, AutopilotObservation, AutopilotReport } from './Autopilot';
+import { hashSeed } from './Random';
+import { ENV_ACTIONS, ACTION_REPORT, EnvAction, ObservationEncoding, OBSERVATION_ENCODINGS, actionDecision, encodeObservation, observationSize } from './Environment';
+
+const STORAGE_KEY = 'neon-runner.policy';
+export const POLICY_FORMAT = 'neon-runner-policy';
+export const POLICY_VERSION = 1;
+
+export type Activation = 'relu' | 'tanh' | 'linear';
+const ACTIVATIONS: Activation[] = ['relu', 'tanh', 'linear'];
+
+export interface PolicyLayer {
+    weights: number[][]; // one row per output, one column per input
+    bias: number[];
+    activation: Activation;
+}
+
+// A feed-forward network trained against GameEnvironment: encoded observation in, one logit per ENV_ACTIONS entry out
+export interface PolicyFile {
+    format: typeof POLICY_FORMAT;
+    version: number;
+    name?: string;
+    encoding: ObservationEncoding;
+    frameSkip: number; // must match the environment it was trained in
+    layers: PolicyLayer[];
+}
+
+export function validatePolicy(data: any): PolicyFile {
+    if (!data || data.format !== POLICY_FORMAT) throw new Error('Not a policy file');
+    if (data.version !== POLICY_VERSION) throw new Error(`Unsupported policy version ${data.version}`);
+    if (!OBSERVATION_ENCODINGS.includes(data.encoding)) throw new Error(`Unknown observation encoding "${data.encoding}"`);
+    if (!(Number.isInteger(data.frameSkip) && data.frameSkip >= 1)) throw new Error('Policy frameSkip must be a positive integer');
+    if (!Array.isArray(data.layers) || data.layers.length === 0) throw new Error('Policy has no layers');
+
+    let inputs = observationSize(data.encoding);
+    data.layers.forEach((layer: any, i: number) => {
+        const where = `layer ${i}`;
+        if (!ACTIVATIONS.includes(layer?.activation)) throw new Error(`${where}: unknown activation "${layer?.activation}"`);
+        if (!Array.isArray(layer.weights) || layer.weights.length === 0) throw new Error(`${where}: weights missing`);
+        for (const row of layer.weights) {
+            if (!Array.isArray(row) || row.length !== inputs) throw new Error(`${where}: every weight row needs ${inputs} values`);
+            if (!row.every((w: any) => Number.isFinite(w))) throw new Error(`${where}: weights must be finite numbers`);
+        }
+        if (!Array.isArray(layer.bias) || layer.bias.length !== layer.weights.length || !layer.bias.every((b: any) => Number.isFinite(b))) {
+            throw new Error(`${where}: needs one finite bias per weight row`);
+        }
+        inputs = layer.weights.length;
+    });
+    if (inputs !== ENV_ACTIONS.length) throw new Error(`Policy must output ${ENV_ACTIONS.length} values, one per action`);
+    return data as PolicyFile;
+}
+
+export function parsePolicy(json: string): PolicyFile {
+    let data: any;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error('Policy file is not valid JSON');
+    }
+    return validatePolicy(data);
+}
+
+export function evaluatePolicy(policy: PolicyFile, input: number[]): number[] {
+    let values = input;
+    for (const layer of policy.layers) {
+        values = layer.weights.map((row, i) => {
+            let sum = layer.bias[i];
+            for (let j = 0; j < row.length; j++) sum += row[j] * values[j];
+            return layer.activation === 'relu' ? Math.max(0, sum) : layer.activation === 'tanh' ? Math.tanh(sum) : sum;
+        });
+    }
+    return values;
+}
+
+// Identifies the weights for replays; only what affects play is hashed, so renaming a policy keeps its replays valid
+export function policyHash(policy: PolicyFile): number {
+    return hashSeed(JSON.stringify([policy.encoding, policy.frameSkip, policy.layers]));
+}
+
+// --- ACTIVE POLICY ---
+// The in-game 'policy' bot plays whichever policy was loaded last. Replays re-run it, so they record
+// the policy's hash and only play back with the same weights loaded.
+let activePolicy: PolicyFile | null | undefined;
+
+export function getActivePolicy(): PolicyFile | null {
+    if (activePolicy === undefined) activePolicy = loadPolicy();
+    return activePolicy;
+}
+
+export function setActivePolicy(policy: PolicyFile | null) {
+    activePolicy = policy;
+    savePolicy(policy);
+}
+
+function loadPolicy(): PolicyFile | null {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        return raw ? parsePolicy(raw) : null;
+    } catch {
+        return null;
+    }
+}
+
+function savePolicy(policy: PolicyFile | null) {
+    try {
+        if (policy) localStorage.setItem(STORAGE_KEY, JSON.stringify(policy));
+        else localStorage.removeItem(STORAGE_KEY);
+    } catch {
+        // ignore; large policies may not fit, and still work until reload
+    }
+}
+
+// Plays a loaded policy with the environment's timing: a fresh action every frameSkip ticks, holding the lane in between
+export class PolicyAutopilot implements AutopilotController {
+    private ticks = 0;
+    private lastReport: AutopilotReport | null = null;
+
+    constructor(private policy: PolicyFile | null = getActivePolicy()) {}
+
+    public reset() {
+        this.ticks = 0;
+        this.lastReport = null;
+    }
+
+    public decide(obs: AutopilotObservation): AutopilotDecision {
+        const policy = this.policy;
+        const hold = { lane: obs.player.lane, jump: false, roll: false };
+        if (!policy) {
+            return { ...hold, report: { action: 'SCANNING', confidence: 0, nearestThreatDist: 9999, visionRange: Math.floor(obs.visibility), laneScores: [0, 0, 0], status: "NO POLICY LOADED" } };
+        }
+        if (this.ticks++ % policy.frameSkip !== 0 && this.lastReport) return { ...hold, report: this.lastReport };
+
+        const logits = evaluatePolicy(policy, encodeObservation(obs, policy.encoding));
+        const best = logits.indexOf(Math.max(...logits));
+        const action = ENV_ACTIONS[best];
+
+        // Softmax for the panel: confidence in the pick, and how much each lane is wanted
+        const exp = logits.map(l => Math.exp(l - logits[best]));
+        const total = exp.reduce((a, b) => a + b, 0);
+        const prob = (a: EnvAction) => exp[ENV_ACTIONS.indexOf(a)] / total;
+        const lane = obs.player.lane;
+        const laneScores = [-1, 0, 1].map(l => Math.round(100 * (l === lane ? prob('noop') + prob('jump') + prob('roll')
+            : l === lane - 1 ? prob('left') : l === lane + 1 ? prob('right') : 0)));
+
+        this.lastReport = {
+            action: ACTION_REPORT[action],
+            confidence: Math.round(100 / total),
+            nearestThreatDist: 9999,
+            visionRange: Math.floor(obs.visibility),
+            laneScores,
+            status: `${policy.name ?? 'POLICY'}: ${action.toUpperCase()}`
+        };
+        return { ...actionDecision(action, obs), report: this.lastReport };
+    }
+}
@@ -0,0 +1,24 @@
+import { PowerUpType } from './types';
+
+export interface PowerUpDef {
+    label: string;
+    duration: number; // seconds; Infinity = until consumed
+    color: number;
+    aiValue: number; // How much the autopilot wants it (same scale as LaneAnalysis.score)
+}
+
+export const POWERUPS: Record<PowerUpType, PowerUpDef> = {
+    [PowerUpType.MAGNET]: { label: 'MAGNET', duration: 8, color: 0xff3355, aiValue: 120 },
+    [PowerUpType.SHIELD]: { label: 'SHIELD', duration: Infinity, color: 0x33ccff, aiValue: 400 },
+    [PowerUpType.MULTIPLIER]: { label: 'MULTIPLIER', duration: 10, color: 0xff00ff, aiValue: 200 },
+    [PowerUpType.SLOW_TIME]: { label: 'SLOW-TIME', duration: 5, color: 0x33ff88, aiValue: 150 }
+};
+
+export const POWERUP_TYPES = Object.keys(POWERUPS) as PowerUpType[];
+
+export const POWERUP_SPAWN_CHANCE = 0.05; // Per row, in the safe lane
+export const MAX_MULTIPLIER = 4; // Each extra multiplier pickup adds x1 up to this
+export const SHIELD_OVERFLOW_BONUS = 1000; // Points for a shield picked up while already shielded
+export const MAGNET_RANGE = 30; // How far ahead coins start being pulled
+export const SLOW_TIME_FACTOR = 0.6; // Fraction of gameSpeed while slow-time is active
+export const SLOW_TIME_RAMP = 0.5; // Seconds to ease back to full speed
@@ -0,0 +1,103 @@
+const STORAGE_KEY = 'neon-runner.quality';
+
+export type QualityLevel = 'low' | 'medium' | 'high';
+export type QualitySetting = QualityLevel | 'auto';
+
+export const QUALITY_LEVELS: QualityLevel[] = ['low', 'medium', 'high'];
+export const QUALITY_SETTINGS: QualitySetting[] = ['low', 'medium', 'high', 'auto'];
+
+export interface QualityPreset {
+    pixelRatio: number; // cap on devicePixelRatio
+    shadows: boolean;
+    shadowMapSize: number;
+    glitterCount: number;
+    fogScale: number; // multiplies GameConfig.fogDensity; thicker fog hides the shorter draw distance
+    drawDistance: number; // camera far plane
+    sceneryDensity: number; // 0-1 share of roadside lamps/trees kept
+}
+
+export const QUALITY_PRESETS: Record<QualityLevel, QualityPreset> = {
+    low: { pixelRatio: 1, shadows: false, shadowMapSize: 512, glitterCount: 400, fogScale: 1.6, drawDistance: 250, sceneryDensity: 0.4 },
+    medium: { pixelRatio: 1.5, shadows: true, shadowMapSize: 1024, glitterCount: 1000, fogScale: 1.2, drawDistance: 320, sceneryDensity: 0.75 },
+    high: { pixelRatio: 2, shadows: true, shadowMapSize: 2048, glitterCount: 2000, fogScale: 1, drawDistance: 400, sceneryDensity: 1 }
+};
+
+const SAMPLE_WINDOW = 60; // frames in the rolling average
+const DOWNGRADE_FRAME_TIME = 1 / 45; // seconds; sustained slower than this steps down
+const UPGRADE_FRAME_TIME = 1 / 57; // sustained faster than this steps back up
+const DOWNGRADE_AFTER = 2; // seconds of slow frames before stepping down
+const UPGRADE_AFTER = 8; // recovering is deliberately slower than degrading, to avoid flip-flopping
+
+// Picks the quality level: fixed when the player chose one, otherwise stepped by measured frame time
+export class QualityManager {
+    public setting: QualitySetting;
+    public level: QualityLevel;
+    private samples: number[] = [];
+    private slowFor: number = 0;
+    private fastFor: number = 0;
+    private ceiling: number = QUALITY_LEVELS.length - 1; // a level that proved too slow isn't retried
+
+    constructor(setting: QualitySetting) {
+        this.setting = setting;
+        this.level = setting === 'auto' ? 'medium' : setting; // auto starts in the middle and climbs if frames allow
+    }
+
+    public setSetting(setting: QualitySetting) {
+        this.setting = setting;
+        if (setting !== 'auto') this.level = setting;
+        this.ceiling = QUALITY_LEVELS.length - 1;
+        this.resetSamples();
+    }
+
+    public resetSamples() {
+        this.samples = [];
+        this.slowFor = 0;
+        this.fastFor = 0;
+    }
+
+    public get averageFrameTime(): number {
+        if (this.samples.length === 0) return 0;
+        return this.samples.reduce((a, b) => a + b, 0) / this.samples.length;
+    }
+
+    // Feed the unclamped frame time; returns true when the level changed
+    public sample(frameTime: number): boolean {
+        if (this.setting !== 'auto') return false;
+        this.samples.push(frameTime);
+        if (this.samples.length > SAMPLE_WINDOW) this.samples.shift();
+        if (this.samples.length < SAMPLE_WINDOW) return false;
+
+        const avg = this.averageFrameTime;
+        this.slowFor = avg > DOWNGRADE_FRAME_TIME ? this.slowFor + frameTime : 0;
+        this.fastFor = avg < UPGRADE_FRAME_TIME ? this.fastFor + frameTime : 0;
+
+        const index = QUALITY_LEVELS.indexOf(this.level);
+        if (this.slowFor > DOWNGRADE_AFTER && index > 0) {
+            this.level = QUALITY_LEVELS[index - 1];
+            this.ceiling = index - 1;
+        } else if (this.fastFor > UPGRADE_AFTER && index < this.ceiling) {
+            this.level = QUALITY_LEVELS[index + 1];
+        } else {
+            return false;
+        }
+        this.resetSamples();
+        return true;
+    }
+}
+
+export function loadQualitySetting(): QualitySetting {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        return QUALITY_SETTINGS.includes(raw as QualitySetting) ? raw as QualitySetting : 'auto';
+    } catch {
+        return 'auto';
+    }
+}
+
+export function saveQualitySetting(setting: QualitySetting) {
+    try {
+        localStorage.setItem(STORAGE_KEY, setting);
+    } catch {
+        // ignore
+    }
+}
@@ -0,0 +1,63 @@
+// Seedable PRNG used for every generation decision so a run can be reproduced from its seed.
+// mulberry32: tiny, fast and good enough for gameplay randomness.
+export class SeededRandom {
+    private state: number;
+
+    constructor(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    public next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    public range(min: number, max: number): number {
+        return min + this.next() * (max - min);
+    }
+
+    public int(maxExclusive: number): number {
+        return Math.floor(this.next() * maxExclusive);
+    }
+
+    public pick<T>(items: T[]): T {
+        return items[this.int(items.length)];
+    }
+}
+
+// FNV-1a, used to turn text (dates, stream names) into 32-bit seeds
+export function hashSeed(input: string): number {
+    let h = 0x811C9DC5;
+    for (let i = 0; i < input.length; i++) {
+        h ^= input.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+}
+
+// Independent stream per subsystem, so e.g. scenery density never shifts the obstacle sequence
+export function deriveSeed(seed: number, stream: string): number {
+    return hashSeed(`${seed >>> 0}:${stream}`);
+}
+
+export function randomSeed(): number {
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+// Same seed for everyone on the same (UTC) day
+export function dailySeed(date: Date = new Date()): number {
+    return hashSeed(`daily:${date.toISOString().slice(0, 10)}`);
+}
+
+export function formatSeed(seed: number): string {
+    return (seed >>> 0).toString(16).toUpperCase().padStart(8, '0');
+}
+
+export function parseSeed(text: string): number | null {
+    const clean = text.trim().replace(/^0x/i, '');
+    if (!/^[0-9a-f]{1,8}$/i.test(clean)) return null;
+    return parseInt(clean, 16) >>> 0;
+}
@@ -0,0 +1,76 @@
+import { CollisionType, AIState } from './types';
+import type { AutopilotController, AutopilotDecision, AutopilotObservation, ObservedObstacle } from './Autopilot';
+
+const DODGE_DISTANCE = 60; // metres; how close a solid gets before it sidesteps
+const REACTION_WINDOW: [number, number] = [0.083, 0.42]; // seconds before impact to press jump or roll
+
+// Holds its lane and only reacts to the next threat in it. Cheap, predictable and easy to beat,
+// it's mostly a baseline for the smarter bots.
+export class ReflexAutopilot implements AutopilotController {
+    public reset() {}
+
+    public decide(obs: AutopilotObservation, _dt: number): AutopilotDecision {
+        const lane = obs.player.lane;
+        const threat = this.nextThreat(obs, lane);
+        let targetLane = lane;
+        let jump = false;
+        let roll = false;
+        let action: AIState['action'] = 'RUN';
+        let status = "CRUISING";
+
+        if (threat) {
+            const timeToImpact = threat.distance / obs.speed;
+            const inWindow = timeToImpact > REACTION_WINDOW[0] && timeToImpact < REACTION_WINDOW[1];
+
+            if (threat.type === CollisionType.SOLID && threat.distance < DODGE_DISTANCE) {
+                const escape = [lane - 1, lane + 1]
+                    .filter(l => l >= -1 && l <= 1 && !this.sideBlocked(obs, l))
+                    .sort((a, b) => this.solidDistance(obs, b) - this.solidDistance(obs, a))[0];
+                if (escape !== undefined && this.solidDistance(obs, escape) > threat.distance) {
+                    targetLane = escape;
+                    action = 'DODGE';
+                    status = "AVOIDING SOLID OBSTACLE";
+                } else {
+                    action = 'SCANNING';
+                    status = "PANIC: EVASIVE MANEUVERS";
+                }
+            } else if (threat.type === CollisionType.JUMP && inWindow) {
+                jump = true;
+                action = 'JUMP';
+                status = "DETECTED BARRIER - JUMPING";
+            } else if (threat.type === CollisionType.DUCK && inWindow) {
+                roll = true;
+                action = 'DUCK';
+                status = "DETECTED OVERHEAD - ROLLING";
+            }
+        }
+
+        return {
+            lane: targetLane,
+            jump,
+            roll,
+            report: {
+                action,
+                confidence: action === 'SCANNING' ? 0 : 60,
+                nearestThreatDist: Math.floor(threat ? threat.distance : 9999),
+                visionRange: Math.floor(obs.visibility),
+                laneScores: obs.lanes.map(l => Math.floor(this.solidDistance(obs, l.lane))),
+                status
+            }
+        };
+    }
+
+    private nextThreat(obs: AutopilotObservation, lane: number): ObservedObstacle | undefined {
+        return obs.lanes[lane + 1].obstacles.find(o => o.distance > 0 && o.type !== CollisionType.COIN && o.type !== CollisionType.POWERUP);
+    }
+
+    private solidDistance(obs: AutopilotObservation, lane: number): number {
+        const solid = obs.lanes[lane + 1].obstacles.find(o => o.distance > 0 && o.type === CollisionType.SOLID);
+        return solid ? solid.distance : 9999;
+    }
+
+    // Anything but a pickup alongside the player would clip it mid-change
+    private sideBlocked(obs: AutopilotObservation, lane: number): boolean {
+        return obs.lanes[lane + 1].obstacles.some(o => o.distance < 4 && o.distance > -5 && o.type !== CollisionType.COIN && o.type !== CollisionType.POWERUP);
+    }
+}
@@ -0,0 +1,139 @@
+import { GameConfig, InputAction } from './types';
+import { GameSimulation, RULES_VERSION, resolveConfig } from './Simulation';
+import { ChunkDef, DEFAULT_CHUNKS, chunkPackHash, validateChunk } from './Chunks';
+import { AUTOPILOT_IDS } from './Autopilot';
+import { getActivePolicy, policyHash } from './PolicyAutopilot';
+
+export const REPLAY_FORMAT = 'neon-runner-replay';
+export const REPLAY_VERSION = 3;
+
+const INPUT_ACTIONS: InputAction[] = [
+    'left', 'right', 'jump', 'roll', 'autopilotOn', 'autopilotOff',
+    ...AUTOPILOT_IDS.map(id => `bot:${id}` as const)
+];
+
+// Everything needed to regenerate a run exactly: seed (obstacle stream), config (physics) and the input timeline
+export interface ReplayFile {
+    format: typeof REPLAY_FORMAT;
+    version: number;
+    rulesVersion: number; // Simulation rules the run was recorded under
+    chunkHash: number; // Authored track chunks the run was recorded with
+    course?: ChunkDef; // Fixed course the run was played on instead of the endless track
+    seed: number;
+    config: GameConfig;
+    inputs: [number, InputAction][]; // [tick, action]
+    policyHash?: number; // Trained policy the POLICY bot played, 0 if none was loaded; set only when that bot was used
+    ticks: number;
+    finalScore: number;
+    distance: number;
+    recordedAt: string;
+}
+
+export function createReplay(sim: GameSimulation): ReplayFile {
+    const replay: ReplayFile = {
+        format: REPLAY_FORMAT,
+        version: REPLAY_VERSION,
+        rulesVersion: RULES_VERSION,
+        chunkHash: sim.chunkHash,
+        seed: sim.seed,
+        config: { ...sim.config },
+        inputs: sim.inputLog.map(([tick, action]) => [tick, action] as [number, InputAction]),
+        ticks: sim.tick,
+        finalScore: sim.score,
+        distance: Math.floor(sim.distanceTraveled),
+        recordedAt: new Date().toISOString()
+    };
+    if (sim.course) replay.course = sim.course;
+    if (usesPolicy(replay)) replay.policyHash = activePolicyHash();
+    return replay;
+}
+
+const usesPolicy = (replay: ReplayFile) => replay.inputs.some(([, action]) => action === 'bot:policy');
+
+function activePolicyHash(): number {
+    const policy = getActivePolicy();
+    return policy ? policyHash(policy) : 0;
+}
+
+// The POLICY bot isn't recorded move by move, so a replay that used it only plays back under the same weights
+export function checkReplayPolicy(replay: ReplayFile) {
+    if (!usesPolicy(replay)) return;
+    const active = activePolicyHash();
+    if (replay.policyHash === active) return;
+    if (replay.policyHash === undefined) throw new Error('Replay used the POLICY bot but does not record which policy');
+    if (replay.policyHash === 0) throw new Error('Replay was played by the POLICY bot before a policy was loaded, so this policy would play a different run');
+    if (active === 0) throw new Error('Replay was played by an AI policy; load it to watch or verify this run');
+    throw new Error('Replay was played by a different AI policy; load the same policy to watch or verify it');
+}
+
+export function serializeReplay(replay: ReplayFile): string {
+    return JSON.stringify(replay);
+}
+
+export function parseReplay(json: string): ReplayFile {
+    let data: any;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error('Replay is not valid JSON');
+    }
+
+    if (!data || data.format !== REPLAY_FORMAT) throw new Error('Not a Neon Runner replay file');
+    if (data.version !== REPLAY_VERSION) throw new Error(`Unsupported replay version ${data.version} (expected ${REPLAY_VERSION})`);
+    if (data.rulesVersion !== RULES_VERSION) {
+        throw new Error(`Replay was recorded with different game rules (v${data.rulesVersion}, this build is v${RULES_VERSION})`);
+    }
+    if (data.course !== undefined) {
+        validateChunk(data.course, 'Replay course');
+        if (data.chunkHash !== chunkPackHash([data.course])) throw new Error('Replay course does not match its recorded hash');
+    } else if (data.chunkHash !== chunkPackHash(DEFAULT_CHUNKS)) {
+        throw new Error('Replay was recorded with a different set of track chunks');
+    }
+    if (typeof data.seed !== 'number' || typeof data.ticks !== 'number') throw new Error('Replay is missing its seed or length');
+    if (!data.config || typeof data.config !== 'object') throw new Error('Replay is missing its game config');
+    try {
+        // Replays from before a config field existed ran with its default
+        data.config = resolveConfig(data.config);
+    } catch (e) {
+        throw new Error(`Replay game config is invalid: ${(e as Error).message}`);
+    }
+    if (!Array.isArray(data.inputs) || !data.inputs.every((i: any) =>
+        Array.isArray(i) && typeof i[0] === 'number' && INPUT_ACTIONS.includes(i[1]))) {
+        throw new Error('Replay input timeline is malformed');
+    }
+    if (data.policyHash !== undefined && typeof data.policyHash !== 'number') throw new Error('Replay policy hash is malformed');
+
+    return data as ReplayFile;
+}
+
+// Re-run a replay headlessly; used to verify that a claimed score is reproducible. Throws if it needs a different policy.
+export function simulateReplay(
+    replay: ReplayFile,
+    sim: GameSimulation = new GameSimulation(replay.config, DEFAULT_CHUNKS, replay.course ?? null),
+    onTick?: (sim: GameSimulation) => void
+): GameSimulation {
+    checkReplayPolicy(replay);
+    sim.reset(replay.seed);
+    sim.startPlayback(replay.inputs);
+    const dt = 1 / replay.config.simulationRate;
+    while (!sim.isOver && sim.tick < replay.ticks) {
+        sim.step(dt);
+        onTick?.(sim);
+    }
+    return sim;
+}
+
+export function verifyReplay(replay: ReplayFile): boolean {
+    const sim = simulateReplay(replay);
+    return sim.score === replay.finalScore && sim.tick === replay.ticks;
+}
+
+export function downloadReplay(replay: ReplayFile) {
+    const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `neon-runner-${replay.seed.toString(16).toUpperCase()}-${replay.finalScore}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,310 @@
+import * as THREE from 'three';
+import { CollisionType, ObstacleState, PowerUpType, PoolStats } from './types';
+import { POWERUPS, POWERUP_TYPES } from './PowerUps';
+import { ObjectPool } from './ObjectPool';
+import { ObstaclePalette, PALETTES } from './Accessibility';
+
+const OBSTACLE_PREWARM = 12; // per obstacle type; a full screen of rows rarely needs more
+const POWERUP_PREWARM = 2; // per power-up type; they're rare
+const PARTICLE_PREWARM = 150;
+
+const obstacleKey = (type: CollisionType, powerUp?: PowerUpType) =>
+    type === CollisionType.POWERUP ? `powerup:${powerUp}` : type;
+
+type MarkedType = CollisionType.JUMP | CollisionType.DUCK | CollisionType.SOLID;
+const MARKER_HEIGHT: Record<MarkedType, number> = { [CollisionType.JUMP]: 2.6, [CollisionType.DUCK]: 4.6, [CollisionType.SOLID]: 5 };
+
+// Icon saying what an obstacle wants, readable without colour: up arrow (jump), down arrow (roll), cross (dodge)
+function createMarkerTexture(type: MarkedType): THREE.CanvasTexture {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 64;
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = 'rgba(0,0,0,0.7)';
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = 4;
+    ctx.beginPath();
+    ctx.arc(32, 32, 29, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+
+    ctx.fillStyle = '#ffffff';
+    ctx.beginPath();
+    if (type === CollisionType.JUMP) {
+        ctx.moveTo(32, 12); ctx.lineTo(50, 40); ctx.lineTo(14, 40);
+    } else if (type === CollisionType.DUCK) {
+        ctx.moveTo(32, 52); ctx.lineTo(50, 24); ctx.lineTo(14, 24);
+    } else {
+        ctx.lineWidth = 9;
+        ctx.moveTo(19, 19); ctx.lineTo(45, 45);
+        ctx.moveTo(45, 19); ctx.lineTo(19, 45);
+        ctx.stroke();
+    }
+    ctx.fill();
+    return new THREE.CanvasTexture(canvas);
+}
+
+// Everything the view spawns repeatedly, built once from shared geometries/materials and recycled.
+// Pooled objects remember their pool in `userData.pool`, so a single `release` returns any of them.
+export class ScenePools {
+    private geometries: THREE.BufferGeometry[] = [];
+    private materials: THREE.Material[] = [];
+    private particleMaterials: Map<number, THREE.MeshBasicMaterial> = new Map();
+    private powerUpMats: Map<PowerUpType, { body: THREE.Material; shell: THREE.Material; halo: THREE.Material }> = new Map();
+    private markerMats: Map<MarkedType, THREE.SpriteMaterial> = new Map();
+    private textures: THREE.Texture[] = [];
+
+    private obstacles: Map<string, ObjectPool<THREE.Object3D>> = new Map();
+    private particles: ObjectPool<THREE.Object3D>;
+
+    // --- SHARED RESOURCES ---
+    private geo = {
+        jumpBase: this.track(new THREE.BoxGeometry(3.5, 0.5, 0.5)),
+        jumpField: this.track(new THREE.BoxGeometry(3.3, 0.8, 0.1)),
+        jumpTop: this.track(new THREE.BoxGeometry(3.5, 0.2, 0.2)),
+        droneBody: this.track(new THREE.BoxGeometry(3.8, 1, 1)),
+        droneLight: this.track(new THREE.SphereGeometry(0.2)),
+        dronePole: this.track(new THREE.CylinderGeometry(0.1, 0.1, 4)),
+        wall: this.track(new THREE.BoxGeometry(3.6, 4, 3.6)),
+        wallScreen: this.track(new THREE.PlaneGeometry(2.5, 2.5)),
+        coinOuter: this.track(new THREE.OctahedronGeometry(0.5, 0)),
+        coinInner: this.track(new THREE.OctahedronGeometry(0.3, 0)),
+        magnetArc: this.track(new THREE.TorusGeometry(0.4, 0.12, 8, 16, Math.PI)),
+        magnetTip: this.track(new THREE.CylinderGeometry(0.12, 0.12, 0.3)),
+        shieldShell: this.track(new THREE.IcosahedronGeometry(0.55, 1)),
+        shieldCore: this.track(new THREE.IcosahedronGeometry(0.25, 0)),
+        knot: this.track(new THREE.TorusKnotGeometry(0.3, 0.08, 48, 8, 2, 3)),
+        hourglassCone: this.track(new THREE.ConeGeometry(0.35, 0.5, 12)),
+        halo: this.track(new THREE.RingGeometry(0.7, 0.8, 24)),
+        particle: this.track(new THREE.BoxGeometry(0.1, 0.1, 0.1))
+    };
+
+    private mat = {
+        tech: this.track(new THREE.MeshStandardMaterial({ color: 0x222222, roughness: 0.4, metalness: 0.8 })),
+        jumpHazard: this.track(new THREE.MeshStandardMaterial({ color: 0xff3300, emissive: 0xff0000, emissiveIntensity: 0.5 })),
+        duckHazard: this.track(new THREE.MeshStandardMaterial({ color: 0xff3300, emissive: 0xff0000, emissiveIntensity: 0.5 })),
+        glass: this.track(new THREE.MeshPhysicalMaterial({
+            color: 0x88ccff, transmission: 0.9, opacity: 1, transparent: true, roughness: 0, metalness: 0
+        })),
+        screen: this.track(new THREE.MeshBasicMaterial({ color: 0xff0000 })),
+        coinOuter: this.track(new THREE.MeshBasicMaterial({ color: 0xffd700, wireframe: true })),
+        coinInner: this.track(new THREE.MeshBasicMaterial({ color: 0xffaa00 })),
+        magnetTip: this.track(new THREE.MeshStandardMaterial({ color: 0xdddddd, metalness: 1, roughness: 0.2 })),
+        particle: this.track(new THREE.MeshBasicMaterial({ color: 0xffffff })) // placeholder until acquireParticle() tints it
+    };
+
+    constructor() {
+        for (const type of [CollisionType.JUMP, CollisionType.DUCK, CollisionType.SOLID] as MarkedType[]) {
+            const map = createMarkerTexture(type);
+            this.textures.push(map);
+            this.markerMats.set(type, this.track(new THREE.SpriteMaterial({ map, transparent: true, depthWrite: false, visible: false })));
+        }
+        this.setPalette(PALETTES.default.colors);
+
+        for (const type of [CollisionType.SOLID, CollisionType.JUMP, CollisionType.DUCK, CollisionType.COIN]) {
+            this.addObstaclePool(obstacleKey(type), () => this.buildObstacle(type));
+        }
+        for (const type of POWERUP_TYPES) {
+            this.addObstaclePool(obstacleKey(CollisionType.POWERUP, type), () => this.buildPowerUp(type), POWERUP_PREWARM);
+        }
+
+        this.particles = new ObjectPool('particles',
+            () => this.own(this.particles, new THREE.Mesh(this.geo.particle, this.mat.particle)),
+            p => p.scale.setScalar(1));
+        this.particles.prewarm(PARTICLE_PREWARM);
+    }
+
+    private track<T extends THREE.BufferGeometry | THREE.Material>(resource: T): T {
+        if ((resource as THREE.Material).isMaterial) this.materials.push(resource as THREE.Material);
+        else this.geometries.push(resource as THREE.BufferGeometry);
+        return resource;
+    }
+
+    private own(pool: ObjectPool<THREE.Object3D>, obj: THREE.Object3D): THREE.Object3D {
+        obj.userData.pool = pool;
+        return obj;
+    }
+
+    private addObstaclePool(key: string, build: () => THREE.Object3D, prewarm: number = OBSTACLE_PREWARM) {
+        const pool: ObjectPool<THREE.Object3D> = new ObjectPool(`obstacle:${key}`,
+            () => this.own(pool, build()),
+            view => { view.rotation.set(0, 0, 0); view.visible = true; });
+        pool.prewarm(prewarm);
+        this.obstacles.set(key, pool);
+    }
+
+    // --- ACCESSIBILITY ---
+    // Shared materials, so every pooled instance picks the change up at once
+    public setPalette(colors: ObstaclePalette) {
+        const { jumpHazard, duckHazard, screen, coinOuter, coinInner } = this.mat;
+        jumpHazard.color.setHex(colors.jump);
+        jumpHazard.emissive.setHex(colors.jumpGlow);
+        duckHazard.color.setHex(colors.duck);
+        duckHazard.emissive.setHex(colors.duckGlow);
+        screen.color.setHex(colors.solid);
+        coinOuter.color.setHex(colors.coin);
+        coinInner.color.setHex(colors.coinCore);
+        this.markerMats.get(CollisionType.JUMP)!.color.setHex(colors.jump);
+        this.markerMats.get(CollisionType.DUCK)!.color.setHex(colors.duck);
+        this.markerMats.get(CollisionType.SOLID)!.color.setHex(colors.solid);
+    }
+
+    public setMarkers(visible: boolean) {
+        this.markerMats.forEach(m => m.visible = visible);
+    }
+
+    // --- ACQUIRE / RELEASE ---
+    public acquireObstacle(obs: ObstacleState): THREE.Object3D {
+        return this.obstacles.get(obstacleKey(obs.type, obs.powerUp))!.acquire();
+    }
+
+    public acquireParticle(color: number): THREE.Mesh {
+        const p = this.particles.acquire() as THREE.Mesh;
+        let material = this.particleMaterials.get(color);
+        if (!material) {
+            material = new THREE.MeshBasicMaterial({ color });
+            this.particleMaterials.set(color, material);
+        }
+        p.material = material;
+        return p;
+    }
+
+    // Detaches any pooled object from the scene graph and hands it back to its pool
+    public release(obj: THREE.Object3D) {
+        obj.removeFromParent();
+        (obj.userData.pool as ObjectPool<THREE.Object3D>).release(obj);
+    }
+
+    public stats(): PoolStats[] {
+        return [...this.obstacles.values(), this.particles].map(p => p.stats());
+    }
+
+    public dispose() {
+        this.obstacles.forEach(p => p.clear());
+        this.particles.clear();
+        this.geometries.forEach(g => g.dispose());
+        this.materials.forEach(m => m.dispose());
+        this.particleMaterials.forEach(m => m.dispose());
+        this.particleMaterials.clear();
+        this.textures.forEach(t => t.dispose());
+    }
+
+    // --- BUILDERS ---
+
+    private buildObstacle(type: CollisionType): THREE.Object3D {
+        if (type === CollisionType.COIN) return this.buildCoin();
+
+        const obsGroup = new THREE.Group();
+        const { tech, jumpHazard, duckHazard, glass } = this.mat;
+
+        if (type === CollisionType.JUMP) {
+            // JUMP (Energy Barrier) - Must Jump OVER
+            const base = new THREE.Mesh(this.geo.jumpBase, tech);
+            base.position.y = 0.25;
+            obsGroup.add(base);
+
+            // Energy Field
+            const field = new THREE.Mesh(this.geo.jumpField, glass);
+            field.position.y = 0.9;
+            obsGroup.add(field);
+
+            const top = new THREE.Mesh(this.geo.jumpTop, jumpHazard);
+            top.position.y = 1.4;
+            obsGroup.add(top);
+
+        } else if (type === CollisionType.DUCK) {
+            // DUCK (Overhead Pipe/Drone) - Must Roll UNDER
+            const droneBody = new THREE.Mesh(this.geo.droneBody, tech);
+            droneBody.position.y = 3.0;
+            droneBody.castShadow = true;
+            obsGroup.add(droneBody);
+
+            [-1.5, 1.5].forEach(x => {
+                const light = new THREE.Mesh(this.geo.droneLight, duckHazard);
+                light.position.set(x, 3, 0.6);
+                obsGroup.add(light);
+            });
+
+            [-1.8, 1.8].forEach(x => {
+                const pole = new THREE.Mesh(this.geo.dronePole, tech);
+                pole.position.set(x, 2, 0);
+                obsGroup.add(pole);
+            });
+
+        } else {
+            // SOLID (Data Wall) - Must Dodge
+            const mesh = new THREE.Mesh(this.geo.wall, tech);
+            mesh.position.y = 2;
+            mesh.castShadow = true;
+            obsGroup.add(mesh);
+
+            const screen = new THREE.Mesh(this.geo.wallScreen, this.mat.screen);
+            screen.position.set(0, 2.5, 1.81);
+            obsGroup.add(screen);
+        }
+
+        const marker = new THREE.Sprite(this.markerMats.get(type as MarkedType)!);
+        marker.position.y = MARKER_HEIGHT[type as MarkedType];
+        marker.scale.setScalar(1.4);
+        obsGroup.add(marker);
+
+        return obsGroup;
+    }
+
+    // One set of materials per power-up type, shared by every instance in its pool
+    private powerUpMaterials(type: PowerUpType) {
+        let mats = this.powerUpMats.get(type);
+        if (!mats) {
+            const color = POWERUPS[type].color;
+            mats = {
+                body: this.track(new THREE.MeshStandardMaterial({ color, emissive: color, emissiveIntensity: 1.5 })),
+                shell: this.track(new THREE.MeshBasicMaterial({ color, wireframe: true })),
+                halo: this.track(new THREE.MeshBasicMaterial({ color, transparent: true, opacity: 0.5, side: THREE.DoubleSide }))
+            };
+            this.powerUpMats.set(type, mats);
+        }
+        return mats;
+    }
+
+    private buildCoin(): THREE.Object3D {
+        const coin = new THREE.Mesh(this.geo.coinOuter, this.mat.coinOuter);
+        coin.add(new THREE.Mesh(this.geo.coinInner, this.mat.coinInner));
+        return coin;
+    }
+
+    private buildPowerUp(type: PowerUpType): THREE.Object3D {
+        const { body: mat, shell, halo } = this.powerUpMaterials(type);
+        const group = new THREE.Group();
+
+        if (type === PowerUpType.MAGNET) {
+            // Horseshoe magnet
+            const arc = new THREE.Mesh(this.geo.magnetArc, mat);
+            arc.rotation.z = Math.PI;
+            group.add(arc);
+            [-0.4, 0.4].forEach(x => {
+                const tip = new THREE.Mesh(this.geo.magnetTip, this.mat.magnetTip);
+                tip.position.set(x, 0.15, 0);
+                group.add(tip);
+            });
+        } else if (type === PowerUpType.SHIELD) {
+            // Bubble with a solid core
+            group.add(new THREE.Mesh(this.geo.shieldShell, shell));
+            group.add(new THREE.Mesh(this.geo.shieldCore, mat));
+        } else if (type === PowerUpType.MULTIPLIER) {
+            // Star-ish knot
+            group.add(new THREE.Mesh(this.geo.knot, mat));
+        } else {
+            // Hourglass
+            const top = new THREE.Mesh(this.geo.hourglassCone, mat);
+            top.position.y = 0.25;
+            top.rotation.x = Math.PI;
+            group.add(top);
+            const bottom = new THREE.Mesh(this.geo.hourglassCone, mat);
+            bottom.position.y = -0.25;
+            group.add(bottom);
+        }
+
+        // Halo so pickups read from a distance
+        group.add(new THREE.Mesh(this.geo.halo, halo));
+        return group;
+    }
+}
@@ -0,0 +1,338 @@
+import * as THREE from 'three';
+import { SeededRandom, deriveSeed } from './Random';
+import { District, DISTRICTS, districtBlend } from './Districts';
+
+export const SEGMENT_COUNT = 25;
+export const SEGMENT_LENGTH = 10;
+const SEGMENT_WRAP = SEGMENT_COUNT * SEGMENT_LENGTH;
+const RECYCLE_Z = 15; // a segment this far behind the camera jumps to the far end
+export const WINDOW_VARIANTS = 3;
+
+const _pos = new THREE.Vector3();
+const _scale = new THREE.Vector3();
+const _quat = new THREE.Quaternion();
+const _euler = new THREE.Euler();
+const _matrix = new THREE.Matrix4();
+const _color = new THREE.Color();
+const _from = new THREE.Color();
+const _to = new THREE.Color();
+const HIDDEN = new THREE.Matrix4().makeScale(0, 0, 0);
+
+function mixColor(from: number, to: number, t: number): THREE.Color {
+    return _color.lerpColors(_from.setHex(from), _to.setHex(to), t);
+}
+
+function placement(x: number, y: number, z: number, sx = 1, sy = 1, sz = 1, rotX = 0, rotY = 0): THREE.Matrix4 {
+    _euler.set(rotX, rotY, 0);
+    return _matrix.compose(_pos.set(x, y, z), _quat.setFromEuler(_euler), _scale.set(sx, sy, sz));
+}
+
+// One InstancedMesh with a fixed number of slots per ground segment. Slots are placed in segment-local
+// space; scroll() only rewrites the z translation, so moving the road costs one float per instance.
+class Batch {
+    public readonly mesh: THREE.InstancedMesh;
+    private perSegment: number;
+    private localZ: Float32Array;
+    private tinted: boolean = false;
+
+    constructor(geometry: THREE.BufferGeometry, material: THREE.Material, perSegment: number) {
+        this.perSegment = perSegment;
+        this.localZ = new Float32Array(perSegment * SEGMENT_COUNT);
+        this.mesh = new THREE.InstancedMesh(geometry, material, perSegment * SEGMENT_COUNT);
+        this.mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+        this.mesh.frustumCulled = false; // instances move every frame; the cached bounds would go stale
+        for (let i = 0; i < this.mesh.count; i++) this.mesh.setMatrixAt(i, HIDDEN);
+    }
+
+    public set(segment: number, slot: number, matrix: THREE.Matrix4) {
+        const i = segment * this.perSegment + slot;
+        this.mesh.setMatrixAt(i, matrix);
+        this.localZ[i] = matrix.elements[14];
+    }
+
+    public hide(segment: number, slot: number) {
+        this.set(segment, slot, HIDDEN);
+    }
+
+    // Per-instance colour, multiplied with the (white) material colour
+    public tint(segment: number, slot: number, color: THREE.Color) {
+        this.mesh.setColorAt(segment * this.perSegment + slot, color);
+        this.tinted = true;
+    }
+
+    public scroll(segmentZ: Float32Array) {
+        const m = this.mesh.instanceMatrix.array;
+        for (let i = 0; i < this.mesh.count; i++) {
+            m[i * 16 + 14] = this.localZ[i] + segmentZ[Math.floor(i / this.perSegment)];
+        }
+        this.mesh.instanceMatrix.needsUpdate = true;
+        if (this.tinted && this.mesh.instanceColor) this.mesh.instanceColor.needsUpdate = true;
+        this.tinted = false;
+    }
+}
+
+// Soft light pool painted under each street lamp in place of a real SpotLight
+export function createGlowTexture(): THREE.CanvasTexture {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 128;
+    const ctx = canvas.getContext('2d')!;
+    const gradient = ctx.createRadialGradient(64, 64, 0, 64, 64, 64);
+    gradient.addColorStop(0, 'rgba(255,255,255,0.9)');
+    gradient.addColorStop(0.4, 'rgba(255,255,255,0.35)');
+    gradient.addColorStop(1, 'rgba(255,255,255,0)');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, 128, 128);
+    return new THREE.CanvasTexture(canvas);
+}
+
+// The roadside city: road, lane lines, sidewalks, lamps, trees and buildings for every ground segment,
+// drawn as a handful of InstancedMesh batches. Segments still wrap around as the run scrolls, and each
+// wrap re-rolls the segment's props from (world seed, segment, lap) so the skyline keeps changing but
+// the same seed always produces the same city. Each segment takes the look of the district it lies in,
+// picked per segment across a transition so one district's buildings thin out as the next one's appear.
+export class CityScenery {
+    public readonly group: THREE.Group = new THREE.Group();
+    private batches: Batch[] = [];
+    private segmentZ: Float32Array = new Float32Array(SEGMENT_COUNT);
+    private laps: Int32Array = new Int32Array(SEGMENT_COUNT).fill(-1);
+    private worldSeed: number = 0;
+    private districtLength: number = 1;
+    private density: number = 1;
+
+    private geometries: THREE.BufferGeometry[] = [];
+    private materials: THREE.Material[] = [];
+    private glowTexture: THREE.CanvasTexture = createGlowTexture();
+
+    private road: Batch;
+    private laneLines: Batch;
+    private sidewalk: Batch;
+    private pole: Batch;
+    private arm: Batch;
+    private head: Batch;
+    private bulb: Batch;
+    private glow: Batch;
+    private trunk: Batch;
+    private leaves: Batch;
+    private body: Batch;
+    private windows: Batch[][]; // per district, per facade variant
+    private antenna: Batch;
+    private blinker: Batch;
+    private container: Batch;
+
+    constructor(laneWidth: number) {
+        // Materials that vary by district are white and tinted per instance
+        const road = this.road = this.batch(new THREE.PlaneGeometry(14, 10),
+            new THREE.MeshStandardMaterial({ color: 0xffffff, roughness: 0.2, metalness: 0.6, dithering: true }), 1);
+        const laneLines = this.laneLines = this.batch(new THREE.PlaneGeometry(0.15, 10), new THREE.MeshBasicMaterial({ color: 0xffffff }), 2);
+        const sidewalk = this.sidewalk = this.batch(new THREE.BoxGeometry(4, 0.4, 10),
+            new THREE.MeshStandardMaterial({ color: 0xffffff, roughness: 0.9, metalness: 0.1 }), 2);
+        road.mesh.receiveShadow = sidewalk.mesh.receiveShadow = true;
+
+        const poleMat = new THREE.MeshStandardMaterial({ color: 0x111111, metalness: 0.8, roughness: 0.2 });
+        this.pole = this.batch(new THREE.CylinderGeometry(0.1, 0.15, 6), poleMat, 2);
+        this.arm = this.batch(new THREE.BoxGeometry(1.5, 0.1, 0.1), poleMat, 2);
+        this.head = this.batch(new THREE.BoxGeometry(0.4, 0.2, 0.3), poleMat, 2);
+        this.bulb = this.batch(new THREE.BoxGeometry(0.2, 0.05, 0.2), new THREE.MeshBasicMaterial({ color: 0xffffff }), 2);
+        this.glow = this.batch(new THREE.PlaneGeometry(1, 1), new THREE.MeshBasicMaterial({
+            color: 0xffffff, map: this.glowTexture, transparent: true, depthWrite: false, blending: THREE.AdditiveBlending
+        }), 2);
+        this.pole.mesh.castShadow = true;
+
+        this.trunk = this.batch(new THREE.CylinderGeometry(0.2, 0.3, 1.5, 6),
+            new THREE.MeshStandardMaterial({ color: 0x3d2817, roughness: 1.0 }), 2);
+        this.leaves = this.batch(new THREE.IcosahedronGeometry(1.2, 0),
+            new THREE.MeshStandardMaterial({ color: 0xffffff, roughness: 0.8, emissive: 0x001100 }), 2);
+        this.trunk.mesh.castShadow = this.leaves.mesh.castShadow = true;
+
+        // Buildings are dark boxes with unlit window facades on the two faces the camera can see
+        this.body = this.batch(new THREE.BoxGeometry(1, 1, 1),
+            new THREE.MeshStandardMaterial({ color: 0xffffff, roughness: 0.3, metalness: 0.1 }), 2);
+        this.body.mesh.castShadow = true;
+        const facade = new THREE.PlaneGeometry(1, 1);
+        this.windows = DISTRICTS.map(() => {
+            const variants: Batch[] = [];
+            for (let v = 0; v < WINDOW_VARIANTS; v++) variants.push(this.batch(facade, new THREE.MeshBasicMaterial({ color: 0xffffff }), 4));
+            return variants;
+        });
+        this.antenna = this.batch(new THREE.CylinderGeometry(0.1, 0.2, 1), new THREE.MeshStandardMaterial({ color: 0x444444 }), 2);
+        this.blinker = this.batch(new THREE.SphereGeometry(0.2), new THREE.MeshBasicMaterial({ color: 0xff0000 }), 2);
+        this.container = this.batch(new THREE.BoxGeometry(2.6, 2.6, 6),
+            new THREE.MeshStandardMaterial({ color: 0xffffff, roughness: 0.7, metalness: 0.4 }), 4);
+        this.container.mesh.castShadow = true;
+
+        // Road surface sits in the same place on every segment; only its colours and the props are re-rolled
+        for (let s = 0; s < SEGMENT_COUNT; s++) {
+            road.set(s, 0, placement(0, 0, 0, 1, 1, 1, -Math.PI / 2));
+            [-1, 1].forEach((side, i) => {
+                laneLines.set(s, i, placement(side * laneWidth / 2, 0.02, 0, 1, 1, 1, -Math.PI / 2));
+                sidewalk.set(s, i, placement(side * 9, 0.2, 0));
+            });
+        }
+    }
+
+    private batch(geometry: THREE.BufferGeometry, material: THREE.Material, perSegment: number): Batch {
+        if (!this.geometries.includes(geometry)) this.geometries.push(geometry);
+        if (!this.materials.includes(material)) this.materials.push(material);
+        const batch = new Batch(geometry, material, perSegment);
+        this.batches.push(batch);
+        this.group.add(batch.mesh);
+        return batch;
+    }
+
+    // Window textures are regenerated per seed: one set of WINDOW_VARIANTS per district
+    public setWindowTextures(textures: THREE.Texture[][]) {
+        this.windows.forEach((variants, d) => variants.forEach((batch, v) => {
+            const mat = batch.mesh.material as THREE.MeshBasicMaterial;
+            mat.map = textures[d][v];
+            mat.needsUpdate = true;
+        }));
+    }
+
+    // New city: every segment re-rolls its props on the next update()
+    public reset(worldSeed: number, districtLength: number) {
+        this.worldSeed = worldSeed;
+        this.districtLength = districtLength;
+        this.laps.fill(-1);
+    }
+
+    // Share of lamps and trees drawn; the layout rolls don't change, so the city keeps its shape
+    public setDensity(density: number) {
+        if (density === this.density) return;
+        this.density = density;
+        this.laps.fill(-1);
+    }
+
+    // Night level: street lamps and lit windows glow brighter the darker it gets
+    public setLighting(lamps: number, windows: number) {
+        (this.glow.mesh.material as THREE.MeshBasicMaterial).opacity = lamps;
+        (this.bulb.mesh.material as THREE.MeshBasicMaterial).color.setScalar(0.4 + 0.6 * lamps);
+        this.windows.forEach(variants => variants.forEach(b => (b.mesh.material as THREE.MeshBasicMaterial).color.setScalar(windows)));
+    }
+
+    // A wet road is glossier
+    public setWetness(wetness: number) {
+        const road = this.road.mesh.material as THREE.MeshStandardMaterial;
+        road.roughness = 0.2 - 0.15 * wetness;
+        road.metalness = 0.6 + 0.3 * wetness;
+    }
+
+    public update(distance: number) {
+        for (let s = 0; s < SEGMENT_COUNT; s++) {
+            const z = -s * SEGMENT_LENGTH + distance;
+            const lap = z > RECYCLE_Z ? Math.ceil((z - RECYCLE_Z) / SEGMENT_WRAP) : 0;
+            this.segmentZ[s] = z - lap * SEGMENT_WRAP;
+            if (lap !== this.laps[s]) {
+                this.laps[s] = lap;
+                this.decorate(s, lap);
+            }
+        }
+        this.batches.forEach(b => b.scroll(this.segmentZ));
+    }
+
+    private decorate(s: number, lap: number) {
+        const rng = new SeededRandom(deriveSeed(this.worldSeed, `segment:${s}:${lap}`));
+        const blend = districtBlend(s * SEGMENT_LENGTH + lap * SEGMENT_WRAP, this.districtLength);
+        const district = rng.next() < blend.t ? blend.to : blend.from;
+        const props = district.props;
+
+        // Surfaces fade smoothly; props belong to one district or the other
+        const { from, to, t } = blend;
+        this.road.tint(s, 0, mixColor(from.road, to.road, t));
+
+        const hasLamps = rng.next() < props.lamps;
+        const treeRoll = rng.next() < props.trees;
+        const treeZ = [rng.next() * 4 - 2, rng.next() * 4 - 2];
+        const hasBuildings = rng.next() < props.buildings;
+        const hasContainers = rng.next() < props.containers;
+        const kept = rng.next() < this.density;
+
+        [-1, 1].forEach((side, i) => {
+            this.laneLines.tint(s, i, mixColor(from.laneLine, to.laneLine, t));
+            this.sidewalk.tint(s, i, mixColor(from.sidewalk, to.sidewalk, t));
+
+            if (hasLamps && kept) this.placeLamp(s, i, side * 8, district);
+            else [this.pole, this.arm, this.head, this.bulb, this.glow].forEach(b => b.hide(s, i));
+
+            if (treeRoll && kept) {
+                this.trunk.set(s, i, placement(side * 10, 0.75, treeZ[i]));
+                this.leaves.set(s, i, placement(side * 10, 2.2, treeZ[i]));
+                this.leaves.tint(s, i, _color.setHex(district.foliage));
+            } else {
+                this.trunk.hide(s, i);
+                this.leaves.hide(s, i);
+            }
+
+            if (hasBuildings) this.placeBuilding(s, i, side * (16 + rng.next() * 2), district, rng);
+            else {
+                [this.body, this.antenna, this.blinker].forEach(b => b.hide(s, i));
+                this.windows.forEach(variants => variants.forEach(w => { w.hide(s, i * 2); w.hide(s, i * 2 + 1); }));
+            }
+
+            if (!hasBuildings && hasContainers) this.placeContainers(s, i, side * 15, district, rng);
+            else { this.container.hide(s, i * 2); this.container.hide(s, i * 2 + 1); }
+        });
+    }
+
+    private placeLamp(s: number, slot: number, x: number, district: District) {
+        const reach = x > 0 ? -1 : 1; // arm points toward the road
+        this.pole.set(s, slot, placement(x, 3, 0));
+        this.arm.set(s, slot, placement(x + reach * 0.75, 6, 0));
+        this.head.set(s, slot, placement(x + reach * 1.5, 5.9, 0));
+        this.bulb.set(s, slot, placement(x + reach * 1.5, 5.8, 0));
+        this.glow.set(s, slot, placement(x + reach * 1.5, 0.03, 0, 9, 9, 1, -Math.PI / 2));
+        this.glow.tint(s, slot, _color.setHex(district.lampColor));
+        this.bulb.tint(s, slot, _color.setHex(district.lampColor).lerp(_to.setHex(0xffffff), 0.5));
+    }
+
+    private placeBuilding(s: number, slot: number, x: number, district: District, rng: SeededRandom) {
+        const [minHeight, maxHeight] = district.heights;
+        const h = minHeight + rng.next() * (maxHeight - minHeight);
+        const w = 6 + rng.next() * 6;
+        const d = 6 + rng.next() * 6;
+        const variant = Math.floor(rng.next() * WINDOW_VARIANTS);
+        const antennaHeight = rng.next() < district.props.antennas ? 2 + rng.next() * 5 : 0;
+
+        this.body.set(s, slot, placement(x, h / 2, 0, w, h, d));
+        this.body.tint(s, slot, _color.setHex(district.building));
+
+        // Road-facing side and camera-facing front, nudged off the box to avoid z-fighting
+        const toRoad = x > 0 ? -1 : 1;
+        DISTRICTS.forEach((other, i) => this.windows[i].forEach((batch, v) => {
+            if (other !== district || v !== variant) {
+                batch.hide(s, slot * 2);
+                batch.hide(s, slot * 2 + 1);
+                return;
+            }
+            batch.set(s, slot * 2, placement(x + toRoad * (w / 2 + 0.02), h / 2, 0, d, h, 1, 0, toRoad * Math.PI / 2));
+            batch.set(s, slot * 2 + 1, placement(x, h / 2, d / 2 + 0.02, w, h, 1));
+        }));
+
+        if (antennaHeight > 0) {
+            this.antenna.set(s, slot, placement(x, h + antennaHeight / 2, 0, 1, antennaHeight, 1));
+            this.blinker.set(s, slot, placement(x, h + antennaHeight, 0));
+        } else {
+            this.antenna.hide(s, slot);
+            this.blinker.hide(s, slot);
+        }
+    }
+
+    // Shipping containers stacked one or two high on an empty lot
+    private placeContainers(s: number, slot: number, x: number, district: District, rng: SeededRandom) {
+        const angle = (rng.next() - 0.5) * 0.3;
+        this.container.set(s, slot * 2, placement(x, 1.3, 0, 1, 1, 1, 0, angle));
+        this.container.tint(s, slot * 2, _color.setHex(rng.pick(district.containerColors)));
+        if (rng.next() < 0.5) {
+            this.container.set(s, slot * 2 + 1, placement(x + (rng.next() - 0.5), 3.9, 0, 1, 1, 1, 0, -angle));
+            this.container.tint(s, slot * 2 + 1, _color.setHex(rng.pick(district.containerColors)));
+        } else {
+            this.container.hide(s, slot * 2 + 1);
+        }
+    }
+
+    public dispose() {
+        this.batches.forEach(b => b.mesh.dispose());
+        this.geometries.forEach(g => g.dispose());
+        this.materials.forEach(m => m.dispose());
+        this.glowTexture.dispose();
+    }
+}
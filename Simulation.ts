@@ -0,0 +1,702 @@
+import { CollisionType, GameConfig, PlayerState, ObstacleState, SimulationEvent, AIState, AutopilotId, InputAction, RunStats, PowerUpType, ActivePowerUp, NearMissKind } from './types';
+import { SeededRandom, deriveSeed } from './Random';
+import { TrackDirector, PlannedRow } from './TrackDirector';
+import { ChunkDef, DEFAULT_CHUNKS, chunkPackHash } from './Chunks';
+import { AUTOPILOTS, AutopilotController, DEFAULT_AUTOPILOT, observe } from './Autopilot';
+import { WeatherTimeline } from './Weather';
+import {
+    POWERUPS, POWERUP_TYPES, POWERUP_SPAWN_CHANCE, MAX_MULTIPLIER, SHIELD_OVERFLOW_BONUS,
+    MAGNET_RANGE, SLOW_TIME_FACTOR, SLOW_TIME_RAMP
+} from './PowerUps';
+import {
+    NEAR_MISS_APPROACH_Z, NEAR_MISS_SOLID_MARGIN, NEAR_MISS_JUMP_MARGIN, NEAR_MISS_LATE_ROLL,
+    TRICK_POINTS, MAX_COMBO, COMBO_DECAY_TIME, COIN_DROUGHT_TIME
+} from './Tricks';
+
+// Bump whenever a change alters the outcome of a seed + input timeline, so old replays are rejected instead of desyncing
+export const RULES_VERSION = 7;
+
+export const DEFAULT_CONFIG: GameConfig = {
+    laneWidth: 4,
+    startSpeed: 36,
+    maxSpeed: 168,
+    speedIncrement: 0.72,
+    jumpForce: 22.8,
+    gravity: 72,
+    rollDuration: 0.667,
+    simulationRate: 60,
+    visibilityRange: 350,
+    fogDensity: 0.008,
+    obstacleDensity: 0.8,
+    minGapBase: 50,
+    minGapSpeedFactor: 0.5,
+    obstacleMix: { jump: 0.25, duck: 0.25, solid: 0.5 },
+    chunkChance: 0.12,
+    districtLength: 2000,
+    inputBuffer: 0.15,
+    fastFallSpeed: 60,
+    rollGrace: 0.1
+};
+
+export const PLAYER_BASE_Y = 1;
+export const SPAWN_Z = -180;
+export const DESPAWN_Z = 15;
+export const HITBOX_DX = 1.2;
+export const HITBOX_DZ = 1.0;
+export const JUMP_CLEARANCE_Y = 1.2;
+export const LATERAL_RATE = 21; // lane change smoothing for the player
+export const AUTOPILOT_LATERAL_RATE = 96;
+export const COIN_REACH_Y = 1.5; // how close in height the player must be to grab a floating coin
+
+// Fill a partial config from the defaults and validate the result
+export function resolveConfig(overrides: Partial<GameConfig> = {}, base: GameConfig = DEFAULT_CONFIG): GameConfig {
+    const config: GameConfig = {
+        ...base,
+        ...overrides,
+        obstacleMix: { ...base.obstacleMix, ...overrides.obstacleMix }
+    };
+    validateConfig(config);
+    return config;
+}
+
+// Throws on configs the rules can't run fairly, most importantly ones where a JUMP barrier or DUCK drone can't be passed
+export function validateConfig(config: GameConfig) {
+    const positive: (keyof GameConfig)[] = ['laneWidth', 'startSpeed', 'maxSpeed', 'jumpForce', 'gravity', 'rollDuration', 'simulationRate', 'districtLength'];
+    for (const key of positive) {
+        const v = config[key];
+        if (typeof v !== 'number' || !Number.isFinite(v) || v <= 0) throw new Error(`Config ${key} must be a positive number`);
+    }
+    if (!(config.speedIncrement >= 0)) throw new Error('Config speedIncrement must not be negative');
+    for (const key of ['inputBuffer', 'fastFallSpeed', 'rollGrace'] as const) {
+        if (!(config[key] >= 0)) throw new Error(`Config ${key} must not be negative`);
+    }
+    if (config.maxSpeed < config.startSpeed) throw new Error('Config maxSpeed is below startSpeed');
+    if (!(config.obstacleDensity >= 0 && config.obstacleDensity <= 1)) throw new Error('Config obstacleDensity must be between 0 and 1');
+    if (!(config.chunkChance >= 0 && config.chunkChance <= 1)) throw new Error('Config chunkChance must be between 0 and 1');
+    if (!(config.minGapBase >= 0 && config.minGapSpeedFactor >= 0) || config.minGapBase + config.startSpeed * config.minGapSpeedFactor <= 0) {
+        throw new Error('Config minGap must be positive');
+    }
+    const mix = config.obstacleMix;
+    if (!mix || [mix.jump, mix.duck, mix.solid].some(w => !(w >= 0)) || mix.jump + mix.duck + mix.solid <= 0) {
+        throw new Error('Config obstacleMix needs non-negative weights with a positive total');
+    }
+
+    // The slowest an obstacle can pass (start speed under slow-time) keeps it in the hitbox longest
+    const overlapTime = (2 * HITBOX_DZ) / (config.startSpeed * SLOW_TIME_FACTOR);
+    const rise = JUMP_CLEARANCE_Y - PLAYER_BASE_Y;
+    const discriminant = config.jumpForce * config.jumpForce - 2 * config.gravity * rise;
+    const airborneAbove = discriminant > 0 ? 2 * Math.sqrt(discriminant) / config.gravity : 0;
+    if (airborneAbove < overlapTime) {
+        throw new Error(`Jump can't clear a JUMP barrier: ${airborneAbove.toFixed(3)}s above it, ${overlapTime.toFixed(3)}s needed`);
+    }
+    if (config.rollDuration < overlapTime) {
+        throw new Error(`Roll is too short to pass under a DUCK drone: ${config.rollDuration}s, ${overlapTime.toFixed(3)}s needed`);
+    }
+}
+
+// Closest approach to an obstacle while it passes, used to judge near misses
+interface NearMissWatch {
+    closestDx: number;
+    clearance: number; // Lowest height above a JUMP barrier's clearance line while overlapping
+    rollLead: number; // How long the player had been rolling when a DUCK drone reached them
+}
+
+// Frame-rate independent exponential smoothing: fraction of the gap closed in dt seconds
+export const damp = (rate: number, dt: number) => 1 - Math.exp(-rate * dt);
+
+// --- PLAYER RULES ---
+// The player's own physics and presses as pure functions over PlayerState, shared by GameSimulation and the
+// planner's look-ahead so the two can't drift apart. Events go to `events` when given.
+
+// One tick of movement: lateral smoothing towards the lane, jump arc, landing, roll timers and buffered presses.
+// The autopilot snaps sideways faster so it never hovers between lanes.
+export function stepPlayer(p: PlayerState, config: GameConfig, autopilot: boolean, dt: number, events?: SimulationEvent[]) {
+    const targetX = p.lane * config.laneWidth;
+
+    // Anti-Hover: fast snap for AI
+    const lateralRate = autopilot ? AUTOPILOT_LATERAL_RATE : LATERAL_RATE;
+    p.x += (targetX - p.x) * damp(lateralRate, dt);
+
+    if (autopilot && Math.abs(p.x - targetX) < 0.2) {
+        p.x = targetX;
+    } else if (!autopilot && Math.abs(p.x - targetX) < 0.05) {
+        p.x = targetX;
+    }
+
+    if (p.isJumping) {
+        p.y += p.velocityY * dt;
+        p.velocityY -= config.gravity * dt;
+        if (p.fastFalling) p.velocityY = Math.min(p.velocityY, -config.fastFallSpeed);
+
+        if (p.y <= PLAYER_BASE_Y) {
+            p.y = PLAYER_BASE_Y;
+            p.isJumping = false;
+            p.velocityY = 0;
+            events?.push({ type: 'land' });
+            // A fast-fall always ends in a roll; otherwise a jump queued on the way down fires now
+            if (p.fastFalling) {
+                p.fastFalling = false;
+                startRoll(p, config, events);
+            } else if (p.jumpBuffer > 0) {
+                startJump(p, config, events);
+            }
+            p.jumpBuffer = 0;
+        }
+    } else if (p.isRolling) {
+        p.rollTimer -= dt;
+        if (p.rollTimer <= 0) {
+            p.isRolling = false;
+            if (p.rollBuffer > 0) startRoll(p, config, events);
+            else p.rollGrace = config.rollGrace;
+        }
+    } else if (p.rollGrace > 0) {
+        p.rollGrace = Math.max(0, p.rollGrace - dt);
+    }
+    p.jumpBuffer = Math.max(0, p.jumpBuffer - dt);
+    p.rollBuffer = Math.max(0, p.rollBuffer - dt);
+}
+
+export function pressLane(p: PlayerState, lane: number, events?: SimulationEvent[]) {
+    if (lane === p.lane) return;
+    events?.push({ type: 'laneChange', direction: lane > p.lane ? 1 : -1 });
+    p.lane = lane;
+}
+
+// Presses that can't act yet are buffered for config.inputBuffer seconds instead of dropped
+export function pressJump(p: PlayerState, config: GameConfig, events?: SimulationEvent[]) {
+    if (p.isJumping) p.jumpBuffer = config.inputBuffer;
+    else startJump(p, config, events);
+}
+
+// Mid-air a roll becomes a fast-fall
+export function pressRoll(p: PlayerState, config: GameConfig, events?: SimulationEvent[]) {
+    if (p.isJumping) {
+        if (config.fastFallSpeed > 0 && !p.fastFalling) {
+            p.fastFalling = true;
+            p.velocityY = Math.min(p.velocityY, -config.fastFallSpeed);
+            events?.push({ type: 'fastFall' });
+        }
+    } else if (p.isRolling) {
+        p.rollBuffer = config.inputBuffer;
+    } else {
+        startRoll(p, config, events);
+    }
+}
+
+function startJump(p: PlayerState, config: GameConfig, events?: SimulationEvent[]) {
+    p.isJumping = true;
+    p.velocityY = config.jumpForce;
+    p.isRolling = false;
+    p.rollBuffer = 0;
+    p.rollGrace = 0;
+    events?.push({ type: 'jump' });
+}
+
+function startRoll(p: PlayerState, config: GameConfig, events?: SimulationEvent[]) {
+    p.isRolling = true;
+    p.rollTimer = config.rollDuration;
+    p.rollBuffer = 0;
+    p.rollGrace = 0;
+    events?.push({ type: 'roll' });
+}
+
+// Pure game rules: no THREE, no DOM. The renderer in GameEngine only mirrors this state,
+// so the same code runs headless in Node for tests, AI evaluation and score verification.
+export class GameSimulation {
+    public readonly config: GameConfig;
+    public readonly chunks: ChunkDef[];
+    public readonly course: ChunkDef | null; // fixed course played once instead of the endless track (editor test runs)
+    public readonly chunkHash: number; // stamped into replays alongside RULES_VERSION
+    public invulnerable: boolean = false; // editor preview: obstacles scroll past without touching the player
+
+    // State
+    public seed: number = 0;
+    public tick: number = 0;
+    public isOver: boolean = false;
+    public courseCleared: boolean = false; // every row of the fixed course has gone by
+    public score: number = 0;
+    public coinScore: number = 0;
+    public distanceScore: number = 0;
+    public trickScore: number = 0;
+    public distanceTraveled: number = 0;
+    public baseSpeed: number = 0; // Ramps up over the run
+    public gameSpeed: number = 0; // Actual current speed (baseSpeed after slow-time)
+    public activePowerUps: ActivePowerUp[] = [];
+    public weather: WeatherTimeline = new WeatherTimeline(0);
+
+    // Near misses / combo
+    public combo: number = 0;
+    public comboTimer: number = 0; // seconds until the combo drops a level
+    public bestCombo: number = 0;
+    public nearMisses: number = 0;
+    private timeSinceCoin: number = 0;
+    private nearMissWatch: Map<number, NearMissWatch> = new Map();
+    public player: PlayerState = GameSimulation.initialPlayer();
+    public obstacles: ObstacleState[] = [];
+
+    // Run statistics
+    public coinsCollected: number = 0;
+    public maxSpeedReached: number = 0;
+    public autopilotUsed: boolean = false;
+
+    // AI / Auto Pilot
+    public autoPilotEnabled: boolean = false;
+    public aiState: AIState | null = null;
+    public autopilotId: AutopilotId = DEFAULT_AUTOPILOT;
+    private autopilot: AutopilotController = AUTOPILOTS[DEFAULT_AUTOPILOT].create();
+
+    private trackRng: SeededRandom = new SeededRandom(0);
+    private director: TrackDirector;
+    private lastRowZ: number | null = null; // where the most recently spawned row is now
+    private nextRow: PlannedRow | null = null;
+    private nextObstacleId: number = 1;
+    private events: SimulationEvent[] = [];
+
+    // Input timeline: every external input keyed by the tick it was applied before
+    public inputLog: [number, InputAction][] = [];
+    private playback: [number, InputAction][] | null = null;
+    private playbackIndex: number = 0;
+
+    constructor(config: GameConfig = DEFAULT_CONFIG, chunks: ChunkDef[] = DEFAULT_CHUNKS, course: ChunkDef | null = null) {
+        validateConfig(config);
+        this.config = config;
+        this.chunks = chunks;
+        this.course = course;
+        this.chunkHash = chunkPackHash(course ? [course] : chunks);
+        this.director = new TrackDirector(this.trackRng, config, chunks, course);
+    }
+
+    public get currentChunk(): string | null {
+        return this.director.currentChunk;
+    }
+
+    // How far ahead can be seen through the current weather
+    public get visibility(): number {
+        return this.config.visibilityRange * this.weather.visibility;
+    }
+
+    private static initialPlayer(): PlayerState {
+        return {
+            lane: 0, x: 0, y: PLAYER_BASE_Y, isJumping: false, isRolling: false, velocityY: 0, rollTimer: 0,
+            fastFalling: false, jumpBuffer: 0, rollBuffer: 0, rollGrace: 0
+        };
+    }
+
+    public reset(seed: number) {
+        this.seed = seed >>> 0;
+        this.trackRng = new SeededRandom(deriveSeed(this.seed, 'track'));
+        this.weather = new WeatherTimeline(deriveSeed(this.seed, 'weather'));
+        this.director = new TrackDirector(this.trackRng, this.config, this.chunks, this.course);
+        this.lastRowZ = null;
+        this.nextRow = null;
+        this.tick = 0;
+        this.isOver = false;
+        this.courseCleared = false;
+        this.score = 0;
+        this.coinScore = 0;
+        this.distanceScore = 0;
+        this.trickScore = 0;
+        this.combo = 0;
+        this.comboTimer = 0;
+        this.bestCombo = 0;
+        this.nearMisses = 0;
+        this.timeSinceCoin = 0;
+        this.nearMissWatch.clear();
+        this.distanceTraveled = 0;
+        this.baseSpeed = this.config.startSpeed;
+        this.gameSpeed = this.config.startSpeed;
+        this.activePowerUps = [];
+        this.player = GameSimulation.initialPlayer();
+        this.obstacles = [];
+        this.coinsCollected = 0;
+        this.maxSpeedReached = this.gameSpeed;
+        this.autopilotUsed = false;
+        this.nextObstacleId = 1;
+        this.events = [];
+        this.inputLog = [];
+        this.playback = null;
+        this.playbackIndex = 0;
+        this.aiState = null;
+        this.setAutopilot(DEFAULT_AUTOPILOT);
+    }
+
+    // Feed a recorded input timeline back in; live inputs are ignored until the run ends
+    public startPlayback(inputs: [number, InputAction][]) {
+        this.playback = inputs;
+        this.inputLog = inputs.slice();
+        this.playbackIndex = 0;
+    }
+
+    public get isPlayback(): boolean {
+        return this.playback !== null;
+    }
+
+    public getRunStats(): RunStats {
+        return {
+            seed: this.seed,
+            score: this.score,
+            distance: this.distanceTraveled,
+            coins: this.coinsCollected,
+            maxSpeed: this.maxSpeedReached,
+            autopilotUsed: this.autopilotUsed,
+            slowed: false, // wall-clock speed is the view's business; GameEngine fills this in
+            ticks: this.tick,
+            distanceScore: Math.floor(this.distanceScore),
+            coinScore: this.coinScore,
+            trickScore: this.trickScore,
+            nearMisses: this.nearMisses,
+            bestCombo: this.bestCombo
+        };
+    }
+
+    // Events produced since the last call (coins, jumps, landings, crash) for the presentation layer
+    public drainEvents(): SimulationEvent[] {
+        const out = this.events;
+        this.events = [];
+        return out;
+    }
+
+    // --- OBSTACLE & SPAWNING ---
+    // Spawns every row that is due: normally one per gap, several at once for tightly packed chunk rows
+    private spawnRows(moved: number) {
+        if (this.lastRowZ !== null) this.lastRowZ += moved;
+        const minGap = this.config.minGapBase + (this.gameSpeed * this.config.minGapSpeedFactor);
+
+        for (;;) {
+            if (!this.nextRow) this.nextRow = this.director.next(this.gameSpeed, this.distanceTraveled - SPAWN_Z);
+            if (!this.nextRow) return; // fixed course fully spawned
+            const gap = minGap * this.nextRow.spacing;
+            if (this.lastRowZ !== null && this.lastRowZ < SPAWN_Z + gap) return;
+
+            // Keep the exact spacing even when the row became due partway through a tick
+            const z = this.lastRowZ === null ? SPAWN_Z : this.lastRowZ - gap;
+            for (const cell of this.nextRow.cells) this.addObstacle(cell.lane, z, cell.type, cell.powerUp, cell.y);
+            this.lastRowZ = z;
+            this.nextRow = null;
+        }
+    }
+
+    private addObstacle(lane: number, z: number, type: CollisionType, powerUp?: PowerUpType, y?: number) {
+        const obs: ObstacleState = {
+            id: this.nextObstacleId++,
+            lane,
+            x: lane * this.config.laneWidth,
+            z,
+            type,
+            active: true
+        };
+        if (powerUp) obs.powerUp = powerUp;
+        if (y !== undefined) obs.y = y;
+        this.obstacles.push(obs);
+    }
+
+    // --- SIMULATION STEP ---
+    public step(dt: number) {
+        if (this.isOver) return;
+
+        if (this.playback) {
+            while (this.playbackIndex < this.playback.length && this.playback[this.playbackIndex][0] <= this.tick) {
+                this.applyInput(this.playback[this.playbackIndex][1]);
+                this.playbackIndex++;
+            }
+        }
+
+        this.tick++;
+
+        this.updatePowerUps(dt);
+        this.updateCombo(dt);
+
+        this.baseSpeed = Math.min(this.config.maxSpeed, this.baseSpeed + this.config.speedIncrement * dt);
+        this.gameSpeed = this.baseSpeed * this.slowTimeFactor();
+        this.maxSpeedReached = Math.max(this.maxSpeedReached, this.gameSpeed);
+        this.distanceTraveled += this.gameSpeed * dt;
+        this.distanceScore += this.gameSpeed * dt * 10 * this.scoreMultiplier;
+        this.score = Math.floor(this.distanceScore) + this.coinScore + this.trickScore;
+
+        this.weather.update(dt);
+        if (this.autoPilotEnabled) this.runAutopilot(dt);
+
+        this.updatePlayer(dt);
+        this.updateObstacles(dt);
+
+        if (!this.isOver && this.director.finished && this.obstacles.length === 0) {
+            this.isOver = true;
+            this.courseCleared = true;
+            this.events.push({ type: 'courseComplete' });
+        }
+    }
+
+    private updatePlayer(dt: number) {
+        stepPlayer(this.player, this.config, this.autoPilotEnabled, dt, this.events);
+    }
+
+    private updateObstacles(dt: number) {
+        const p = this.player;
+
+        for (let i = this.obstacles.length - 1; i >= 0; i--) {
+            const obs = this.obstacles[i];
+            const prevZ = obs.z;
+            obs.z += this.gameSpeed * dt;
+
+            if (obs.active && obs.type === CollisionType.COIN && this.hasPowerUp(PowerUpType.MAGNET)) {
+                this.pullCoin(obs, dt);
+            }
+
+            if (obs.active) {
+                const dx = Math.abs(obs.x - p.x);
+                const dz = obs.z;
+                const withinReach = obs.y === undefined || Math.abs(obs.y - p.y) < COIN_REACH_Y;
+                const overlapping = dz > -HITBOX_DZ && dz < HITBOX_DZ && dx < HITBOX_DX && withinReach;
+
+                // Precise hitboxes
+                if (overlapping && !this.invulnerable) {
+                    if (obs.type === CollisionType.COIN) {
+                        const points = 500 * this.scoreMultiplier;
+                        this.coinScore += points;
+                        this.score += points;
+                        this.coinsCollected++;
+                        this.timeSinceCoin = 0;
+                        obs.active = false;
+                        this.events.push({ type: 'coin', obstacle: obs });
+                    } else if (obs.type === CollisionType.POWERUP) {
+                        obs.active = false;
+                        this.collectPowerUp(obs.powerUp!);
+                        this.events.push({ type: 'powerup', obstacle: obs, powerUp: obs.powerUp! });
+                    } else {
+                        let safe = false;
+                        // RULES OF SURVIVAL
+                        // 1. Solid: NEVER safe.
+                        // 2. Jump: Safe only if Y > 1.2
+                        // 3. Duck: Safe only if rolling (or just got up from one)
+
+                        if (obs.type === CollisionType.JUMP && p.y > JUMP_CLEARANCE_Y) {
+                            safe = true;
+                        }
+                        else if (obs.type === CollisionType.DUCK && (p.isRolling || p.rollGrace > 0)) {
+                            safe = true;
+                        }
+
+                        // A shield absorbs exactly one otherwise fatal hit
+                        if (!safe && this.consumeShield()) {
+                            obs.active = false;
+                            this.events.push({ type: 'shieldBreak', obstacle: obs });
+                            safe = true;
+                        }
+
+                        // NO AUTO-PILOT CHEATS. If not safe, you die.
+                        if (!safe) {
+                            this.isOver = true;
+                            this.events.push({ type: 'crash', obstacle: obs });
+                            return;
+                        }
+                    }
+                }
+
+                const isPickup = obs.type === CollisionType.COIN || obs.type === CollisionType.POWERUP;
+                if (obs.active && !isPickup && !this.invulnerable) this.watchNearMiss(obs, prevZ, dx, overlapping);
+                if (obs.active && !isPickup && prevZ < 0 && obs.z >= 0) this.events.push({ type: 'obstaclePass', obstacle: obs, dx: obs.x - p.x });
+            }
+
+            if (obs.z > DESPAWN_Z) {
+                this.nearMissWatch.delete(obs.id);
+                this.obstacles.splice(i, 1);
+            }
+        }
+
+        this.spawnRows(this.gameSpeed * dt);
+    }
+
+    // --- NEAR MISSES & COMBO ---
+    private watchNearMiss(obs: ObstacleState, prevZ: number, dx: number, overlapping: boolean) {
+        if (obs.z < -NEAR_MISS_APPROACH_Z) return;
+        const p = this.player;
+
+        let watch = this.nearMissWatch.get(obs.id);
+        if (!watch) {
+            watch = { closestDx: Infinity, clearance: Infinity, rollLead: Infinity };
+            this.nearMissWatch.set(obs.id, watch);
+        }
+
+        if (obs.z < 1) watch.closestDx = Math.min(watch.closestDx, dx);
+        if (overlapping) {
+            if (obs.type === CollisionType.JUMP) watch.clearance = Math.min(watch.clearance, p.y - JUMP_CLEARANCE_Y);
+            if (obs.type === CollisionType.DUCK && watch.rollLead === Infinity) watch.rollLead = this.config.rollDuration - p.rollTimer;
+        }
+
+        // Judge once the obstacle has fully passed the player
+        if (prevZ < 1 && obs.z >= 1) {
+            this.nearMissWatch.delete(obs.id);
+
+            let kind: NearMissKind | null = null;
+            if (obs.type === CollisionType.SOLID && watch.closestDx >= HITBOX_DX && watch.closestDx < HITBOX_DX + NEAR_MISS_SOLID_MARGIN) kind = 'solid';
+            else if (obs.type === CollisionType.JUMP && watch.clearance < NEAR_MISS_JUMP_MARGIN) kind = 'jump';
+            else if (obs.type === CollisionType.DUCK && watch.rollLead < NEAR_MISS_LATE_ROLL) kind = 'duck';
+
+            if (kind) this.registerNearMiss(obs, kind);
+        }
+    }
+
+    private registerNearMiss(obs: ObstacleState, kind: NearMissKind) {
+        // A fresh combo gets a full coin-drought window of its own
+        if (this.combo === 0) this.timeSinceCoin = 0;
+
+        this.combo = Math.min(MAX_COMBO, this.combo + 1);
+        this.comboTimer = COMBO_DECAY_TIME;
+        this.bestCombo = Math.max(this.bestCombo, this.combo);
+        this.nearMisses++;
+
+        const points = TRICK_POINTS * this.combo * this.scoreMultiplier;
+        this.trickScore += points;
+        this.score += points;
+        this.events.push({ type: 'nearMiss', obstacle: obs, kind, combo: this.combo, points });
+    }
+
+    // The combo bleeds a level every COMBO_DECAY_TIME without a trick, and is lost outright on a coin drought
+    private updateCombo(dt: number) {
+        this.timeSinceCoin += dt;
+        if (this.combo === 0) return;
+
+        if (this.timeSinceCoin >= COIN_DROUGHT_TIME) {
+            this.combo = 0;
+            this.comboTimer = 0;
+            this.events.push({ type: 'comboLost' });
+            return;
+        }
+
+        this.comboTimer -= dt;
+        if (this.comboTimer <= 0) {
+            this.combo--;
+            this.comboTimer = this.combo > 0 ? COMBO_DECAY_TIME : 0;
+        }
+    }
+
+    // --- POWER-UPS ---
+    public hasPowerUp(type: PowerUpType): boolean {
+        return this.activePowerUps.some(p => p.type === type);
+    }
+
+    public get scoreMultiplier(): number {
+        const m = this.activePowerUps.find(p => p.type === PowerUpType.MULTIPLIER);
+        return m ? 1 + m.level : 1;
+    }
+
+    private slowTimeFactor(): number {
+        const slow = this.activePowerUps.find(p => p.type === PowerUpType.SLOW_TIME);
+        if (!slow) return 1;
+        if (slow.remaining >= SLOW_TIME_RAMP) return SLOW_TIME_FACTOR;
+        return 1 - (1 - SLOW_TIME_FACTOR) * (slow.remaining / SLOW_TIME_RAMP);
+    }
+
+    // Stacking: repeats refresh the timer; multiplier also gains a level (up to MAX_MULTIPLIER);
+    // a second shield can't stack and is converted into points instead.
+    private collectPowerUp(type: PowerUpType) {
+        const def = POWERUPS[type];
+        const existing = this.activePowerUps.find(p => p.type === type);
+        if (!existing) {
+            this.activePowerUps.push({ type, remaining: def.duration, duration: def.duration, level: 1 });
+            return;
+        }
+
+        existing.remaining = def.duration;
+        if (type === PowerUpType.MULTIPLIER) {
+            existing.level = Math.min(MAX_MULTIPLIER - 1, existing.level + 1);
+        } else if (type === PowerUpType.SHIELD) {
+            this.coinScore += SHIELD_OVERFLOW_BONUS;
+            this.score += SHIELD_OVERFLOW_BONUS;
+        }
+    }
+
+    private consumeShield(): boolean {
+        const idx = this.activePowerUps.findIndex(p => p.type === PowerUpType.SHIELD);
+        if (idx < 0) return false;
+        this.activePowerUps.splice(idx, 1);
+        return true;
+    }
+
+    private updatePowerUps(dt: number) {
+        for (let i = this.activePowerUps.length - 1; i >= 0; i--) {
+            const p = this.activePowerUps[i];
+            p.remaining -= dt;
+            if (p.remaining <= 0) {
+                this.activePowerUps.splice(i, 1);
+                this.events.push({ type: 'powerupExpired', powerUp: p.type });
+            }
+        }
+    }
+
+    // Magnet: drag coins from the neighbouring lanes towards the player as they approach
+    private pullCoin(coin: ObstacleState, dt: number) {
+        const p = this.player;
+        if (coin.z < -MAGNET_RANGE || coin.z > 1) return;
+        if (Math.abs(coin.x - p.x) > this.config.laneWidth * 1.5) return;
+        coin.x += (p.x - coin.x) * damp(10, dt);
+        coin.lane = Math.round(coin.x / this.config.laneWidth);
+    }
+
+    // --- CONTROLS ---
+    // External inputs (keyboard, touch, autopilot toggle) come through here so they can be recorded
+    public input(action: InputAction) {
+        if (this.isOver || this.playback) return;
+        this.inputLog.push([this.tick, action]);
+        this.applyInput(action);
+    }
+
+    private applyInput(action: InputAction) {
+        switch (action) {
+            case 'left': this.moveLeft(); break;
+            case 'right': this.moveRight(); break;
+            case 'jump': this.jump(); break;
+            case 'roll': this.roll(); break;
+            case 'autopilotOn': this.autoPilotEnabled = true; this.autopilotUsed = true; break;
+            case 'autopilotOff': this.autoPilotEnabled = false; break;
+            default: this.setAutopilot(action.slice(4) as AutopilotId);
+        }
+    }
+
+    // --- AUTOPILOT ---
+    // Switching bots goes through input('bot:<id>') so replays pick the same one at the same tick
+    private setAutopilot(id: AutopilotId) {
+        if (!AUTOPILOTS[id]) return;
+        this.autopilotId = id;
+        this.autopilot = AUTOPILOTS[id].create();
+        this.autopilot.reset();
+    }
+
+    // Hands the autopilot to a controller from outside the registry (the training environment's agent).
+    // Nothing about it is recorded and reset() swaps it back out, so such runs can't be replayed.
+    public attachAutopilot(controller: AutopilotController) {
+        this.autopilot = controller;
+        controller.reset();
+    }
+
+    private runAutopilot(dt: number) {
+        const decision = this.autopilot.decide(observe(this), dt);
+        this.setLane(Math.max(-1, Math.min(1, decision.lane)));
+        if (decision.jump) this.jump();
+        else if (decision.roll) this.roll();
+
+        this.aiState = {
+            enabled: true,
+            bot: this.autopilotId,
+            currentLane: this.player.lane,
+            targetLane: decision.lane,
+            ...decision.report
+        };
+    }
+
+    public moveLeft() { if (this.player.lane > -1) this.setLane(this.player.lane - 1); }
+    public moveRight() { if (this.player.lane < 1) this.setLane(this.player.lane + 1); }
+    public setLane(l: number) { pressLane(this.player, l, this.events); }
+    public jump() { pressJump(this.player, this.config, this.events); }
+    public roll() { pressRoll(this.player, this.config, this.events); }
+
+    // Seconds until an airborne player touches down, at the fast-fall speed if `fastFall`; 0 on the ground
+    public timeToLand(fastFall: boolean = this.player.fastFalling): number {
+        const p = this.player;
+        if (!p.isJumping) return 0;
+        const height = p.y - PLAYER_BASE_Y;
+        if (fastFall) return height / Math.max(this.config.fastFallSpeed, -p.velocityY);
+        const g = this.config.gravity;
+        return (p.velocityY + Math.sqrt(p.velocityY * p.velocityY + 2 * g * height)) / g;
+    }
+}
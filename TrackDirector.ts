@@ -0,0 +1,148 @@
+import { CollisionType, GameConfig, ObstacleMix, PowerUpType } from './types';
+import { SeededRandom } from './Random';
+import { POWERUP_TYPES, POWERUP_SPAWN_CHANCE } from './PowerUps';
+import { ChunkDef, ChunkRow, CHUNK_CELLS, MAX_CHUNK_DIFFICULTY, passableLanes } from './Chunks';
+import { districtObstacleMix } from './Districts';
+
+export const LANES = [-1, 0, 1];
+
+export interface PlannedCell {
+    lane: number;
+    type: CollisionType;
+    powerUp?: PowerUpType;
+    y?: number; // floating coin height
+}
+
+export interface PlannedRow {
+    cells: PlannedCell[];
+    spacing: number; // gap before this row as a multiple of the normal row gap
+}
+
+interface ActiveChunk {
+    chunk: ChunkDef;
+    index: number;
+    mirrored: boolean;
+}
+
+// Lowest speed at which the director starts offering chunks of the given difficulty
+export function minSpeedForDifficulty(config: GameConfig, difficulty: number): number {
+    const t = Math.max(0, (difficulty - 1.5) / (MAX_CHUNK_DIFFICULTY - 1));
+    return config.startSpeed + (config.maxSpeed - config.startSpeed) * t;
+}
+
+// Decides what the next row of track is: usually a procedural row, sometimes the next row of an authored
+// chunk. Chunks are picked by weight among those whose difficulty the current speed allows, and only if
+// their first row can be reached from the current safe lane (mirroring the chunk if that helps).
+// With a fixed course it plays that one chunk's rows and then nothing more.
+export class TrackDirector {
+    private rng: SeededRandom;
+    private config: GameConfig;
+    private chunks: ChunkDef[];
+    private course: ChunkDef | null;
+    private lastSafeLane: number = 0;
+    private active: ActiveChunk | null = null;
+
+    constructor(rng: SeededRandom, config: GameConfig, chunks: ChunkDef[], course: ChunkDef | null = null) {
+        this.rng = rng;
+        this.config = config;
+        this.chunks = chunks;
+        this.course = course;
+        if (course) this.active = { chunk: course, index: 0, mirrored: false };
+    }
+
+    public get currentChunk(): string | null {
+        return this.active ? this.active.chunk.id : null;
+    }
+
+    // True once a fixed course has handed out its last row
+    public get finished(): boolean {
+        return this.course !== null && this.active === null;
+    }
+
+    // `distance` is how far along the track the row will be, which picks the district's obstacle mix
+    public next(speed: number, distance: number): PlannedRow | null {
+        if (this.course) return this.active ? this.chunkRow(this.active) : null;
+        if (!this.active && this.chunks.length > 0 && this.rng.next() < this.config.chunkChance) {
+            this.active = this.pickChunk(speed);
+        }
+        return this.active ? this.chunkRow(this.active) : this.proceduralRow(distance);
+    }
+
+    // Difficulty 1 at startSpeed up to MAX_CHUNK_DIFFICULTY at maxSpeed
+    private difficultyCap(speed: number): number {
+        const range = this.config.maxSpeed - this.config.startSpeed;
+        const t = range > 0 ? Math.min(1, Math.max(0, (speed - this.config.startSpeed) / range)) : 1;
+        return 1 + Math.floor(t * (MAX_CHUNK_DIFFICULTY - 1) + 0.5);
+    }
+
+    private entryFits(chunk: ChunkDef, mirrored: boolean): boolean {
+        return passableLanes(chunk.rows[0]).some(l => Math.abs((mirrored ? -l : l) - this.lastSafeLane) <= 1);
+    }
+
+    private pickChunk(speed: number): ActiveChunk | null {
+        const cap = this.difficultyCap(speed);
+        const eligible = this.chunks.filter(c => c.difficulty <= cap && (this.entryFits(c, false) || this.entryFits(c, true)));
+        if (eligible.length === 0) return null;
+
+        let roll = this.rng.next() * eligible.reduce((sum, c) => sum + c.weight, 0);
+        let chunk = eligible[eligible.length - 1];
+        for (const c of eligible) {
+            roll -= c.weight;
+            if (roll < 0) { chunk = c; break; }
+        }
+
+        const straight = this.entryFits(chunk, false);
+        const mirrored = !straight || (this.entryFits(chunk, true) && this.rng.next() < 0.5);
+        return { chunk, index: 0, mirrored };
+    }
+
+    private chunkRow(active: ActiveChunk): PlannedRow {
+        const row: ChunkRow = active.chunk.rows[active.index];
+        const cells: PlannedCell[] = [];
+        LANES.forEach(lane => {
+            const type = CHUNK_CELLS[row.lanes[(active.mirrored ? -lane : lane) + 1]];
+            if (!type) return;
+            const cell: PlannedCell = { lane, type };
+            if (type === CollisionType.POWERUP) cell.powerUp = this.rng.pick(POWERUP_TYPES);
+            if (type === CollisionType.COIN && row.height !== undefined) cell.y = row.height;
+            cells.push(cell);
+        });
+
+        // Track where the player can be, so the procedural rows after the chunk stay reachable
+        const open = passableLanes(row).map(l => active.mirrored ? -l : l);
+        this.lastSafeLane = open.reduce((best, l) => Math.abs(l - this.lastSafeLane) < Math.abs(best - this.lastSafeLane) ? l : best, open[0]);
+
+        if (++active.index >= active.chunk.rows.length) this.active = null;
+        return { cells, spacing: row.spacing ?? 1 };
+    }
+
+    // One random row with a guaranteed safe lane adjacent to the previous one
+    private proceduralRow(distance: number): PlannedRow {
+        const possibleLanes = [this.lastSafeLane];
+        if (this.lastSafeLane > -1) possibleLanes.push(this.lastSafeLane - 1);
+        if (this.lastSafeLane < 1) possibleLanes.push(this.lastSafeLane + 1);
+
+        const safeLaneIdx = possibleLanes[Math.floor(this.rng.next() * possibleLanes.length)];
+        this.lastSafeLane = safeLaneIdx;
+
+        const mix = districtObstacleMix(this.config.obstacleMix, distance, this.config.districtLength);
+        const cells: PlannedCell[] = [];
+        LANES.forEach(lane => {
+            if (lane === safeLaneIdx) {
+                const pickupRand = this.rng.next();
+                if (pickupRand < POWERUP_SPAWN_CHANCE) cells.push({ lane, type: CollisionType.POWERUP, powerUp: this.rng.pick(POWERUP_TYPES) });
+                else if (pickupRand < 0.3) cells.push({ lane, type: CollisionType.COIN });
+            } else {
+                if (this.rng.next() < this.config.obstacleDensity) cells.push({ lane, type: this.rollObstacleType(mix) });
+            }
+        });
+        return { cells, spacing: 1 };
+    }
+
+    private rollObstacleType(mix: ObstacleMix): CollisionType {
+        const typeRand = this.rng.next() * (mix.jump + mix.duck + mix.solid);
+        if (typeRand < mix.jump) return CollisionType.JUMP; // Energy Barrier - Must Jump OVER
+        if (typeRand < mix.jump + mix.duck) return CollisionType.DUCK; // Overhead Drone - Must Roll UNDER
+        return CollisionType.SOLID; // Data Wall - Must Dodge
+    }
+}
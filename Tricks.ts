@@ -0,0 +1,16 @@
+// Near-miss ("trick") tuning. Distances are in world units, times in seconds.
+export const NEAR_MISS_APPROACH_Z = 8; // Start watching an obstacle this far ahead
+export const NEAR_MISS_SOLID_MARGIN = 1.4; // Lateral gap beyond the hitbox that still counts as a near miss
+export const NEAR_MISS_JUMP_MARGIN = 0.6; // Height above the barrier's clearance line
+export const NEAR_MISS_LATE_ROLL = 0.15; // Roll started at most this long before reaching the drone
+
+export const TRICK_POINTS = 250; // Per near miss, multiplied by the combo level
+export const MAX_COMBO = 8;
+export const COMBO_DECAY_TIME = 4; // Seconds without a trick before the combo drops a level
+export const COIN_DROUGHT_TIME = 10; // Seconds without a coin before the combo resets entirely
+
+export const TRICK_LABELS: Record<'solid' | 'jump' | 'duck', string> = {
+    solid: 'NEAR MISS',
+    jump: 'CLOSE JUMP',
+    duck: 'LATE ROLL'
+};
@@ -0,0 +1,109 @@
+import { SeededRandom } from './Random';
+
+export type WeatherKind = 'clear' | 'rain' | 'storm' | 'fog';
+
+export interface WeatherDef {
+    label: string;
+    visibility: number; // multiplies GameConfig.visibilityRange; fog thickens to match
+    rain: number; // 0-1 rain intensity
+    lightning: number; // flashes per second
+    duration: [number, number]; // seconds a spell lasts
+    weight: number; // chance of being the next spell
+}
+
+export const WEATHER: Record<WeatherKind, WeatherDef> = {
+    clear: { label: 'CLEAR', visibility: 1, rain: 0, lightning: 0, duration: [25, 45], weight: 4 },
+    rain: { label: 'RAIN', visibility: 0.75, rain: 0.6, lightning: 0, duration: [20, 35], weight: 3 },
+    storm: { label: 'STORM', visibility: 0.5, rain: 1, lightning: 0.35, duration: [15, 25], weight: 1.5 },
+    fog: { label: 'FOG BANK', visibility: 0.3, rain: 0, lightning: 0, duration: [10, 18], weight: 1.5 }
+};
+
+const WEATHER_KINDS = Object.keys(WEATHER) as WeatherKind[];
+const WEATHER_FADE = 6; // seconds to blend from one spell into the next
+
+// Seeded sequence of weather spells. It lives in the simulation because visibility limits what the autopilot
+// can see, so the same seed has to bring the same weather at the same moments in a replay.
+export class WeatherTimeline {
+    public current: WeatherKind = 'clear';
+    private previous: WeatherKind = 'clear';
+    private fade: number = 1; // 0 at the start of a change, 1 once `current` has fully taken over
+    private remaining: number;
+    private rng: SeededRandom;
+
+    constructor(seed: number) {
+        this.rng = new SeededRandom(seed);
+        this.remaining = this.rng.range(...WEATHER.clear.duration); // runs always start clear
+    }
+
+    public update(dt: number) {
+        this.fade = Math.min(1, this.fade + dt / WEATHER_FADE);
+        this.remaining -= dt;
+        if (this.remaining > 0) return;
+
+        const options = WEATHER_KINDS.filter(k => k !== this.current);
+        let roll = this.rng.next() * options.reduce((sum, k) => sum + WEATHER[k].weight, 0);
+        let next = options[options.length - 1];
+        for (const k of options) {
+            roll -= WEATHER[k].weight;
+            if (roll < 0) { next = k; break; }
+        }
+        this.previous = this.current;
+        this.current = next;
+        this.fade = 0;
+        this.remaining = this.rng.range(...WEATHER[next].duration);
+    }
+
+    private mix(key: 'visibility' | 'rain' | 'lightning'): number {
+        return WEATHER[this.previous][key] + (WEATHER[this.current][key] - WEATHER[this.previous][key]) * this.fade;
+    }
+
+    public get visibility(): number { return this.mix('visibility'); }
+    public get rain(): number { return this.mix('rain'); }
+    public get lightning(): number { return this.mix('lightning'); }
+}
+
+// --- TIME OF DAY ---
+export const DAY_CYCLE = 240; // seconds from dusk through midnight and dawn back to dusk
+
+export interface TimeOfDay {
+    ambient: number; // light intensity scales
+    sun: number;
+    sunColor: number;
+    skyGlow: number; // added to the district's sky colour
+    lamps: number; // street lamp brightness 0-1
+    windows: number; // lit window brightness 0-1
+}
+
+// Dusk, midnight, dawn; the cycle wraps from dawn back into dusk
+const TIME_KEYS: TimeOfDay[] = [
+    { ambient: 1.1, sun: 1.2, sunColor: 0xff8866, skyGlow: 0x180814, lamps: 0.6, windows: 0.7 },
+    { ambient: 0.6, sun: 0.35, sunColor: 0x6677cc, skyGlow: 0x000000, lamps: 1, windows: 1 },
+    { ambient: 1, sun: 1, sunColor: 0xffccaa, skyGlow: 0x0c1420, lamps: 0.45, windows: 0.6 }
+];
+
+function lerpHex(a: number, b: number, t: number): number {
+    let out = 0;
+    for (let shift = 16; shift >= 0; shift -= 8) {
+        const ca = (a >> shift) & 0xff;
+        const cb = (b >> shift) & 0xff;
+        out |= Math.round(ca + (cb - ca) * t) << shift;
+    }
+    return out;
+}
+
+export function timeOfDay(seconds: number): TimeOfDay {
+    const phase = ((seconds / DAY_CYCLE) % 1) * TIME_KEYS.length;
+    const a = TIME_KEYS[Math.floor(phase)];
+    const b = TIME_KEYS[(Math.floor(phase) + 1) % TIME_KEYS.length];
+    const x = phase - Math.floor(phase);
+    const t = x * x * (3 - 2 * x);
+    const mix = (key: 'ambient' | 'sun' | 'lamps' | 'windows') => a[key] + (b[key] - a[key]) * t;
+    return {
+        ambient: mix('ambient'),
+        sun: mix('sun'),
+        sunColor: lerpHex(a.sunColor, b.sunColor, t),
+        skyGlow: lerpHex(a.skyGlow, b.skyGlow, t),
+        lamps: mix('lamps'),
+        windows: mix('windows')
+    };
+}
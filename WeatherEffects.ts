@@ -0,0 +1,137 @@
+import * as THREE from 'three';
+import { SeededRandom, deriveSeed } from './Random';
+import { createGlowTexture } from './Scenery';
+import { WeatherTimeline } from './Weather';
+
+const RAIN_FALL_SPEED = [140, 200]; // units/s
+const PUDDLE_SPAN = 215; // puddles recycle over this stretch of road
+const FLASH_DECAY = 7; // per second
+const WETNESS_RATE = 0.25; // how quickly the road soaks and dries
+
+// Thin vertical line, so a square point sprite reads as a rain streak
+function createStreakTexture(): THREE.CanvasTexture {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 32;
+    const ctx = canvas.getContext('2d')!;
+    const gradient = ctx.createLinearGradient(0, 0, 0, 32);
+    gradient.addColorStop(0, 'rgba(255,255,255,0)');
+    gradient.addColorStop(1, 'rgba(255,255,255,1)');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(15, 0, 2, 32);
+    return new THREE.CanvasTexture(canvas);
+}
+
+// Visual side of the weather: rain streaks and neon puddle glints drawn as points like the glitter,
+// plus lightning. Randomness comes from its own stream so it never touches the simulation.
+export class WeatherEffects {
+    public readonly group: THREE.Group = new THREE.Group();
+    public flash: number = 0; // 1 on a lightning strike, decaying to 0
+    public wetness: number = 0; // 0 dry road, 1 soaked
+    private rain: THREE.Points;
+    private puddles: THREE.Points;
+    private rainSpeed: Float32Array;
+    private maxRain: number;
+    private rainBudget: number;
+    private rng: SeededRandom = new SeededRandom(0);
+    private textures: THREE.Texture[] = [];
+
+    constructor(maxRain: number, puddleCount: number) {
+        this.maxRain = this.rainBudget = maxRain;
+        this.rainSpeed = new Float32Array(maxRain);
+        const streak = createStreakTexture();
+        const glow = createGlowTexture();
+        this.textures.push(streak, glow);
+
+        this.rain = new THREE.Points(new THREE.BufferGeometry(), new THREE.PointsMaterial({
+            color: 0x99bbff, size: 0.9, map: streak, transparent: true, opacity: 0.5, depthWrite: false, blending: THREE.AdditiveBlending
+        }));
+        this.rain.geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(maxRain * 3), 3));
+        this.rain.frustumCulled = false;
+
+        this.puddles = new THREE.Points(new THREE.BufferGeometry(), new THREE.PointsMaterial({
+            color: 0x00ffff, size: 2.5, map: glow, transparent: true, opacity: 0, depthWrite: false, blending: THREE.AdditiveBlending
+        }));
+        this.puddles.geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(puddleCount * 3), 3));
+        this.puddles.frustumCulled = false;
+
+        this.group.add(this.rain, this.puddles);
+        this.reset(0);
+    }
+
+    public reset(seed: number) {
+        this.rng = new SeededRandom(deriveSeed(seed, 'weather-fx'));
+        this.flash = 0;
+        this.wetness = 0;
+
+        const rain = this.rain.geometry.attributes.position.array as Float32Array;
+        for (let i = 0; i < this.maxRain; i++) {
+            this.dropRain(rain, i);
+            rain[i * 3 + 1] = this.rng.next() * 40;
+        }
+        const puddles = this.puddles.geometry.attributes.position.array as Float32Array;
+        for (let i = 0; i < puddles.length; i += 3) {
+            puddles[i] = this.rng.range(-7, 7);
+            puddles[i + 1] = 0.04;
+            puddles[i + 2] = 15 - this.rng.next() * PUDDLE_SPAN;
+        }
+        this.rain.geometry.attributes.position.needsUpdate = true;
+        this.puddles.geometry.attributes.position.needsUpdate = true;
+    }
+
+    // Most rain drops drawn at full intensity (quality preset)
+    public setRainBudget(count: number) {
+        this.rainBudget = Math.min(count, this.maxRain);
+    }
+
+    private dropRain(positions: Float32Array, i: number) {
+        positions[i * 3] = (this.rng.next() - 0.5) * 80;
+        positions[i * 3 + 1] = 30 + this.rng.next() * 15;
+        positions[i * 3 + 2] = 10 - this.rng.next() * 110;
+        this.rainSpeed[i] = this.rng.range(RAIN_FALL_SPEED[0], RAIN_FALL_SPEED[1]);
+    }
+
+    // `glint` is the colour the wet road reflects (the district's lane lines)
+    public update(dt: number, speed: number, weather: WeatherTimeline, glint: THREE.Color) {
+        const intensity = weather.rain;
+        this.wetness += (intensity - this.wetness) * (1 - Math.exp(-WETNESS_RATE * dt));
+        this.flash *= Math.exp(-FLASH_DECAY * dt);
+        if (this.rng.next() < weather.lightning * dt) this.flash = 1;
+
+        const drops = Math.floor(this.rainBudget * intensity);
+        this.rain.visible = drops > 0;
+        this.rain.geometry.setDrawRange(0, drops);
+        if (drops > 0) {
+            const rain = this.rain.geometry.attributes.position.array as Float32Array;
+            for (let i = 0; i < drops; i++) {
+                rain[i * 3 + 1] -= this.rainSpeed[i] * dt;
+                rain[i * 3 + 2] += speed * dt;
+                if (rain[i * 3 + 1] < 0 || rain[i * 3 + 2] > 10) this.dropRain(rain, i);
+            }
+            this.rain.geometry.attributes.position.needsUpdate = true;
+        }
+
+        const puddleMat = this.puddles.material as THREE.PointsMaterial;
+        puddleMat.opacity = 0.35 * this.wetness;
+        puddleMat.color.copy(glint);
+        this.puddles.visible = this.wetness > 0.02;
+        if (this.puddles.visible) {
+            const puddles = this.puddles.geometry.attributes.position.array as Float32Array;
+            for (let i = 0; i < puddles.length; i += 3) {
+                puddles[i + 2] += speed * dt;
+                if (puddles[i + 2] > 15) {
+                    puddles[i + 2] -= PUDDLE_SPAN;
+                    puddles[i] = this.rng.range(-7, 7);
+                }
+            }
+            this.puddles.geometry.attributes.position.needsUpdate = true;
+        }
+    }
+
+    public dispose() {
+        [this.rain, this.puddles].forEach(p => {
+            p.geometry.dispose();
+            (p.material as THREE.Material).dispose();
+        });
+        this.textures.forEach(t => t.dispose());
+    }
+}
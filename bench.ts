@@ -0,0 +1,81 @@
+// Command-line autopilot benchmark: npm run bench -- [options]
+import { readFileSync, writeFileSync } from 'node:fs';
+import { AutopilotId } from './types';
+import { AUTOPILOT_IDS } from './Autopilot';
+import { DIFFICULTY_IDS, Difficulty } from './Difficulty';
+import { BenchmarkOptions, DEFAULT_BENCHMARK, formatBenchmarkReport, parseBenchmarkReport, runBenchmark } from './Benchmark';
+
+const USAGE = `Usage: npm run bench -- [options]
+
+  --bot <id>          autopilot to run: ${AUTOPILOT_IDS.join(', ')} (default ${DEFAULT_BENCHMARK.bot})
+  --difficulty <id>   ${DIFFICULTY_IDS.join(', ')} (default ${DEFAULT_BENCHMARK.difficulty})
+  --runs <n>          number of runs (default ${DEFAULT_BENCHMARK.runs})
+  --seed <n>          first seed; runs use consecutive seeds (default ${DEFAULT_BENCHMARK.firstSeed})
+  --distance <m>      distance a run has to reach to count as survived (default ${DEFAULT_BENCHMARK.distanceCap})
+  --out <file>        where to write the JSON report (default benchmark.json)
+  --baseline <file>   earlier JSON report to compare against`;
+
+interface CliOptions extends BenchmarkOptions {
+    out: string;
+    baseline: string | null;
+}
+
+function parseArgs(args: string[]): CliOptions | null {
+    const options: CliOptions = { ...DEFAULT_BENCHMARK, out: 'benchmark.json', baseline: null };
+    const number = (flag: string, raw: string) => {
+        const v = Number(raw);
+        if (!Number.isFinite(v)) throw new Error(`${flag} needs a number, got "${raw}"`);
+        return v;
+    };
+
+    for (let i = 0; i < args.length; i++) {
+        const flag = args[i];
+        if (flag === '--help' || flag === '-h') return null;
+        const value = args[++i];
+        if (value === undefined) throw new Error(`${flag} needs a value`);
+        switch (flag) {
+            case '--bot':
+                if (!AUTOPILOT_IDS.includes(value as AutopilotId)) throw new Error(`Unknown bot "${value}"`);
+                options.bot = value as AutopilotId;
+                break;
+            case '--difficulty':
+                if (!DIFFICULTY_IDS.includes(value as Difficulty)) throw new Error(`Unknown difficulty "${value}"`);
+                options.difficulty = value as Difficulty;
+                break;
+            case '--runs': options.runs = Math.floor(number(flag, value)); break;
+            case '--seed': options.firstSeed = Math.floor(number(flag, value)); break;
+            case '--distance': options.distanceCap = number(flag, value); break;
+            case '--out': options.out = value; break;
+            case '--baseline': options.baseline = value; break;
+            default: throw new Error(`Unknown option ${flag}`);
+        }
+    }
+    return options;
+}
+
+function main() {
+    const options = parseArgs(process.argv.slice(2));
+    if (!options) {
+        console.log(USAGE);
+        return;
+    }
+    // Read the baseline first so a bad path fails before minutes of runs
+    const baseline = options.baseline ? parseBenchmarkReport(readFileSync(options.baseline, 'utf8')) : undefined;
+
+    const { out, baseline: _, ...benchmark } = options;
+    const report = runBenchmark(benchmark, (run, i) => {
+        const result = run.survived ? 'survived' : `${run.death?.type ?? 'crash'} (${run.death?.situation ?? '?'})`;
+        process.stderr.write(`run ${i + 1}/${benchmark.runs}  seed ${run.seed}  ${run.distance}m  ${result}\n`);
+    });
+
+    writeFileSync(out, JSON.stringify(report, null, 2));
+    console.log(formatBenchmarkReport(report, baseline));
+    console.log(`\nJSON report written to ${out}`);
+}
+
+try {
+    main();
+} catch (e) {
+    console.error((e as Error).message);
+    process.exit(1);
+}
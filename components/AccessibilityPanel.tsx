@@ -0,0 +1,66 @@
+import React from 'react';
+import OptionPicker from './OptionPicker';
+import { AccessibilitySettings, ColorPalette, PALETTES, PALETTE_IDS, SPEED_SCALES } from '../Accessibility';
+
+interface AccessibilityPanelProps {
+    settings: AccessibilitySettings;
+    onChange: (settings: AccessibilitySettings) => void;
+    onClose: () => void;
+}
+
+type Toggle = 'shapeMarkers' | 'reducedMotion' | 'highContrast' | 'announcements';
+
+const TOGGLES: { key: Toggle; label: string; description: string }[] = [
+    { key: 'shapeMarkers', label: 'SHAPE MARKERS', description: 'Arrow and cross icons over obstacles: jump, roll or dodge' },
+    { key: 'reducedMotion', label: 'REDUCED MOTION', description: 'Steady camera, no lean, glitter, particles or lightning flashes' },
+    { key: 'highContrast', label: 'HIGH CONTRAST HUD', description: 'Solid backing behind score, combo and banners' },
+    { key: 'announcements', label: 'SCREEN READER', description: 'Announce score milestones and the end of a run' }
+];
+
+const PALETTE_LABELS = Object.fromEntries(PALETTE_IDS.map(p => [p, PALETTES[p].label])) as Record<ColorPalette, string>;
+const SPEED_IDS = SPEED_SCALES.map(String);
+const SPEED_LABELS = Object.fromEntries(SPEED_IDS.map(s => [s, `${Math.round(Number(s) * 100)}%`])) as Record<string, string>;
+
+export default function AccessibilityPanel({ settings, onChange, onClose }: AccessibilityPanelProps) {
+    const toggleClass = (on: boolean) =>
+        `w-16 px-3 py-1 rounded-full border text-xs font-bold tracking-widest transition-colors ${on ? 'border-cyan-400 text-cyan-300 bg-cyan-500/10' : 'border-gray-700 text-gray-500 hover:text-gray-300'}`;
+
+    return (
+        <div role="dialog" aria-modal="true" aria-label="Accessibility" className="absolute inset-0 flex flex-col items-center justify-center bg-black/90 backdrop-blur-sm z-30 font-mono">
+            <h2 className="text-5xl font-black text-white mb-8 neon-text tracking-widest italic">ACCESSIBILITY</h2>
+
+            <div className="flex flex-col gap-4">
+                <OptionPicker label="COLOURS" options={PALETTE_IDS} labels={PALETTE_LABELS} value={settings.palette}
+                    onChange={palette => onChange({ ...settings, palette })} />
+                <OptionPicker label="GAME SPEED" options={SPEED_IDS} labels={SPEED_LABELS} value={String(settings.speedScale)}
+                    onChange={s => onChange({ ...settings, speedScale: Number(s) })}
+                    title={() => 'Runs below 100% are ranked as assisted'} />
+
+                {TOGGLES.map(({ key, label, description }) => (
+                    <div key={key} className="flex items-center gap-4">
+                        <button
+                            role="switch"
+                            aria-checked={settings[key]}
+                            aria-label={label}
+                            onClick={() => onChange({ ...settings, [key]: !settings[key] })}
+                            className={toggleClass(settings[key])}
+                        >
+                            {settings[key] ? 'ON' : 'OFF'}
+                        </button>
+                        <div>
+                            <div className="text-gray-300 text-sm font-bold tracking-widest">{label}</div>
+                            <div className="text-gray-500 text-xs">{description}</div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <button
+                onClick={onClose}
+                className="mt-10 px-8 py-2 bg-white text-black font-bold tracking-widest rounded-full hover:bg-cyan-400 transition-colors"
+            >
+                CLOSE
+            </button>
+        </div>
+    );
+}
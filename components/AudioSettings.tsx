@@ -0,0 +1,40 @@
+import React from 'react';
+import { AudioSettings } from '../Audio';
+
+interface AudioSettingsPanelProps {
+    settings: AudioSettings;
+    onChange: (settings: AudioSettings) => void;
+}
+
+const CHANNELS: { key: 'master' | 'sfx' | 'music'; label: string }[] = [
+    { key: 'master', label: 'MASTER' },
+    { key: 'sfx', label: 'SFX' },
+    { key: 'music', label: 'MUSIC' }
+];
+
+// Volume sliders plus a mute toggle
+export default function AudioSettingsPanel({ settings, onChange }: AudioSettingsPanelProps) {
+    return (
+        <div className="flex items-center gap-4 font-mono text-xs">
+            <span className="text-gray-500 tracking-widest">AUDIO</span>
+            {CHANNELS.map(({ key, label }) => (
+                <label key={key} className={`flex items-center gap-2 tracking-widest ${settings.muted ? 'text-gray-600' : 'text-gray-400'}`}>
+                    {label}
+                    <input
+                        type="range" min={0} max={100} step={5}
+                        value={Math.round(settings[key] * 100)}
+                        onChange={(e) => onChange({ ...settings, [key]: Number(e.target.value) / 100 })}
+                        className="w-20 accent-cyan-400"
+                    />
+                </label>
+            ))}
+            <button
+                onClick={() => onChange({ ...settings, muted: !settings.muted })}
+                title="M"
+                className={`px-3 py-1 rounded-full border font-bold tracking-widest transition-colors ${settings.muted ? 'border-red-500 text-red-400 bg-red-500/10' : 'border-gray-700 text-gray-500 hover:text-gray-300'}`}
+            >
+                {settings.muted ? 'MUTED' : 'MUTE'}
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,229 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CourseResult, CourseRunMode, GameConfig } from '../types';
+import { ChunkDef, ChunkRow, CHUNK_CELLS, DEFAULT_CHUNKS, MAX_CHUNK_DIFFICULTY, parseChunkPack, downloadChunkPack } from '../Chunks';
+import { ChunkProblem, checkChunk } from '../ChunkSolver';
+
+interface ChunkEditorProps {
+    config: GameConfig; // the difficulty the course is checked and run with
+    lastResult: CourseResult | null;
+    onRun: (course: ChunkDef, mode: CourseRunMode, speed: number) => void;
+    onClose: () => void;
+}
+
+const CELL_LABELS: Record<string, string> = { S: 'WALL', J: 'JUMP', D: 'DUCK', C: 'COIN', P: 'POWER', '.': 'EMPTY' };
+const CELL_CLASSES: Record<string, string> = {
+    S: 'bg-orange-500/70 border-orange-300 text-black',
+    J: 'bg-cyan-500/60 border-cyan-300 text-black',
+    D: 'bg-green-500/60 border-green-300 text-black',
+    C: 'bg-yellow-400/70 border-yellow-200 text-black',
+    P: 'bg-purple-500/70 border-purple-300 text-white',
+    '.': 'bg-black/40 border-gray-700 text-gray-600'
+};
+
+// The solver blocks for up to a few hundred ms, so it waits for a pause in editing rather than running on every click or keystroke
+const CHECK_DELAY = 300; // ms
+
+const NEW_CHUNK: ChunkDef = { id: 'custom', name: 'Custom', difficulty: 1, weight: 1, rows: [{ lanes: '...' }] };
+
+// Top-down editor for a single track chunk: the nearest row is at the bottom, like the view from the road
+export default function ChunkEditor({ config, lastResult, onRun, onClose }: ChunkEditorProps) {
+    const importRef = useRef<HTMLInputElement>(null);
+    const [library, setLibrary] = useState<ChunkDef[]>(DEFAULT_CHUNKS);
+    const [chunk, setChunk] = useState<ChunkDef>(NEW_CHUNK);
+    const [tool, setTool] = useState('S');
+    const [speed, setSpeed] = useState(config.startSpeed);
+    const [importError, setImportError] = useState<string | null>(null);
+
+    const runSpeed = Math.min(Math.max(speed, config.startSpeed), config.maxSpeed);
+    const [problems, setProblems] = useState<ChunkProblem[] | null>(null); // null while an edit is waiting to be checked
+    const badRows = new Set((problems ?? []).map(p => p.row));
+
+    useEffect(() => {
+        setProblems(null);
+        const timer = setTimeout(() => setProblems(checkChunk(chunk, config, [runSpeed])), CHECK_DELAY);
+        return () => clearTimeout(timer);
+    }, [chunk, config, runSpeed]);
+
+    const setRows = (rows: ChunkRow[]) => setChunk({ ...chunk, rows });
+    const updateRow = (i: number, row: ChunkRow) => setRows(chunk.rows.map((r, j) => j === i ? row : r));
+
+    const paint = (i: number, lane: number) => {
+        const row = chunk.rows[i];
+        const lanes = row.lanes.slice(0, lane) + tool + row.lanes.slice(lane + 1);
+        const next: ChunkRow = { ...row, lanes };
+        if (!lanes.includes('C')) delete next.height;
+        updateRow(i, next);
+    };
+
+    const setOptional = (i: number, key: 'spacing' | 'height', value: string) => {
+        const next: ChunkRow = { ...chunk.rows[i] };
+        if (value === '') delete next[key];
+        else next[key] = Number(value);
+        updateRow(i, next);
+    };
+
+    const insertRow = (i: number) => setRows([...chunk.rows.slice(0, i), { lanes: '...' }, ...chunk.rows.slice(i)]);
+    const deleteRow = (i: number) => setRows(chunk.rows.filter((_, j) => j !== i));
+
+    const load = (id: string) => {
+        const found = library.find(c => c.id === id);
+        if (found) setChunk(JSON.parse(JSON.stringify(found)));
+    };
+
+    const importPack = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const pack = parseChunkPack(await file.text());
+            if (pack.chunks.length === 0) throw new Error('Chunk pack is empty');
+            setLibrary(pack.chunks);
+            setChunk(JSON.parse(JSON.stringify(pack.chunks[0])));
+            setImportError(null);
+        } catch (err) {
+            setImportError(err instanceof Error ? err.message : 'Could not read chunk pack');
+        }
+    };
+
+    const fieldClass = 'bg-black/60 border border-gray-700 rounded px-2 py-1 text-cyan-200 outline-none focus:border-cyan-400';
+    const buttonClass = 'px-4 py-1 border rounded-full font-bold text-xs tracking-widest transition-colors disabled:opacity-30';
+    const valid = problems !== null && problems.length === 0;
+
+    return (
+        <div className="absolute inset-0 flex bg-black/90 backdrop-blur-sm z-20 font-mono text-sm text-gray-300">
+            {/* Lane grid */}
+            <div className="flex-1 overflow-y-auto p-6 flex flex-col items-center">
+                <h2 className="text-4xl font-black text-white mb-4 neon-text tracking-widest italic">TRACK EDITOR</h2>
+                <div className="flex gap-2 mb-4">
+                    {Object.keys(CHUNK_CELLS).map(c => (
+                        <button
+                            key={c}
+                            onClick={() => setTool(c)}
+                            className={`w-16 py-1 rounded border text-xs font-bold tracking-widest ${CELL_CLASSES[c]} ${tool === c ? 'ring-2 ring-white' : 'opacity-70'}`}
+                        >
+                            {CELL_LABELS[c]}
+                        </button>
+                    ))}
+                </div>
+
+                <button onClick={() => insertRow(chunk.rows.length)} className={`${buttonClass} mb-2 border-gray-600 text-gray-400 hover:text-white`}>+ ROW</button>
+                <div className="flex flex-col-reverse gap-1">
+                    {chunk.rows.map((row, i) => (
+                        <div key={i} className={`flex items-center gap-2 px-2 py-1 rounded border ${badRows.has(i) ? 'border-red-500 bg-red-900/30' : 'border-transparent'}`}>
+                            <span className="w-6 text-right text-gray-500 text-xs">{i}</span>
+                            {[0, 1, 2].map(lane => (
+                                <button
+                                    key={lane}
+                                    onClick={() => paint(i, lane)}
+                                    className={`w-20 h-9 rounded border text-xs font-bold ${CELL_CLASSES[row.lanes[lane]]}`}
+                                >
+                                    {row.lanes[lane] === '.' ? '' : CELL_LABELS[row.lanes[lane]]}
+                                </button>
+                            ))}
+                            <label className="text-[10px] text-gray-500 ml-2">GAP</label>
+                            <input
+                                type="number" min={0} max={4} step={0.25} placeholder="1"
+                                value={row.spacing ?? ''}
+                                onChange={(e) => setOptional(i, 'spacing', e.target.value)}
+                                className={`w-16 ${fieldClass}`}
+                            />
+                            {row.lanes.includes('C') && (
+                                <>
+                                    <label className="text-[10px] text-gray-500">HEIGHT</label>
+                                    <input
+                                        type="number" min={0} max={6} step={0.5}
+                                        value={row.height ?? ''}
+                                        onChange={(e) => setOptional(i, 'height', e.target.value)}
+                                        className={`w-16 ${fieldClass}`}
+                                    />
+                                </>
+                            )}
+                            <button onClick={() => insertRow(i)} title="Insert a row before this one" className="px-2 text-gray-500 hover:text-white">+</button>
+                            <button onClick={() => deleteRow(i)} disabled={chunk.rows.length === 1} title="Delete row" className="px-2 text-gray-500 hover:text-red-400 disabled:opacity-30">×</button>
+                        </div>
+                    ))}
+                </div>
+                <div className="mt-2 text-[10px] text-gray-600 tracking-widest">▲ FARTHEST · NEAREST ▼</div>
+            </div>
+
+            {/* Chunk settings, checks and runs */}
+            <div className="w-80 border-l border-white/10 p-6 flex flex-col gap-3 overflow-y-auto">
+                <div className="flex gap-2">
+                    <select value="" onChange={(e) => load(e.target.value)} className={`flex-1 ${fieldClass}`}>
+                        <option value="">LOAD CHUNK…</option>
+                        {library.map(c => <option key={c.id} value={c.id}>{c.name} ({c.id})</option>)}
+                    </select>
+                    <button onClick={() => setChunk(NEW_CHUNK)} className={`${buttonClass} border-gray-600 text-gray-300 hover:text-white`}>NEW</button>
+                </div>
+
+                <label className="flex flex-col gap-1 text-xs text-gray-500">NAME
+                    <input value={chunk.name} onChange={(e) => setChunk({ ...chunk, name: e.target.value })} className={fieldClass} />
+                </label>
+                <label className="flex flex-col gap-1 text-xs text-gray-500">ID
+                    <input value={chunk.id} onChange={(e) => setChunk({ ...chunk, id: e.target.value })} className={fieldClass} />
+                </label>
+                <div className="flex gap-3">
+                    <label className="flex flex-col gap-1 text-xs text-gray-500">DIFFICULTY
+                        <input
+                            type="number" min={1} max={MAX_CHUNK_DIFFICULTY} step={1}
+                            value={chunk.difficulty}
+                            onChange={(e) => setChunk({ ...chunk, difficulty: Number(e.target.value) })}
+                            className={`w-24 ${fieldClass}`}
+                        />
+                    </label>
+                    <label className="flex flex-col gap-1 text-xs text-gray-500">WEIGHT
+                        <input
+                            type="number" min={0.1} step={0.1}
+                            value={chunk.weight}
+                            onChange={(e) => setChunk({ ...chunk, weight: Number(e.target.value) })}
+                            className={`w-24 ${fieldClass}`}
+                        />
+                    </label>
+                </div>
+
+                <label className="flex flex-col gap-1 text-xs text-gray-500 mt-2">SPEED <span className="text-white">{Math.round(runSpeed)}</span>
+                    <input
+                        type="range" min={config.startSpeed} max={config.maxSpeed} step={1}
+                        value={runSpeed}
+                        onChange={(e) => setSpeed(Number(e.target.value))}
+                        className="accent-cyan-400"
+                    />
+                </label>
+
+                <div className="flex gap-2">
+                    <button onClick={() => onRun(chunk, 'preview', runSpeed)} disabled={!valid} className={`${buttonClass} border-gray-400 text-gray-200 hover:text-white`}>PREVIEW</button>
+                    <button onClick={() => onRun(chunk, 'play', runSpeed)} disabled={!valid} className={`${buttonClass} border-pink-400 text-pink-300 hover:bg-pink-500/20`}>PLAY</button>
+                    <button onClick={() => onRun(chunk, 'autopilot', runSpeed)} disabled={!valid} className={`${buttonClass} border-cyan-400 text-cyan-300 hover:bg-cyan-500/20`}>AUTOPILOT</button>
+                </div>
+
+                {lastResult && (
+                    <div className={`text-xs tracking-widest ${lastResult.cleared ? 'text-green-400' : 'text-red-400'}`}>
+                        LAST {lastResult.mode.toUpperCase()}: {lastResult.cleared ? 'CLEARED' : 'CRASHED'} AT {Math.floor(lastResult.distance)}m
+                    </div>
+                )}
+
+                <div className="mt-2 border-t border-white/10 pt-3">
+                    <div className="text-xs text-gray-500 tracking-widest mb-1">CHECKS</div>
+                    {problems === null ? (
+                        <div className="text-gray-400 text-xs">Checking...</div>
+                    ) : valid ? (
+                        <div className="text-green-400 text-xs">Passable at every speed it can appear at</div>
+                    ) : problems.map((p, i) => (
+                        <div key={i} className="text-red-300 text-xs break-words">{p.message}</div>
+                    ))}
+                </div>
+
+                <div className="flex gap-2 mt-2">
+                    <button onClick={() => downloadChunkPack([chunk], chunk.id)} disabled={!valid} className={`${buttonClass} border-yellow-500/60 text-yellow-300 hover:bg-yellow-500/20`}>EXPORT</button>
+                    <button onClick={() => importRef.current?.click()} className={`${buttonClass} border-gray-600 text-gray-300 hover:text-white`}>IMPORT</button>
+                    <input ref={importRef} type="file" accept="application/json,.json" className="hidden" onChange={importPack} />
+                </div>
+                {importError && <div className="text-red-300 text-xs break-words">{importError}</div>}
+
+                <button onClick={onClose} className="mt-auto px-6 py-2 border border-gray-500 text-gray-300 font-bold tracking-widest rounded-full hover:border-white hover:text-white transition-colors">
+                    BACK TO MENU
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { ACTION_LABELS, BINDING_SLOTS, DEFAULT_BINDINGS, INPUT_ACTIONS, InputAction, KeyBindings, keyLabel, rebind } from '../Input';
+
+interface ControlsPanelProps {
+    bindings: KeyBindings;
+    gamepadConnected: boolean;
+    onChange: (bindings: KeyBindings) => void;
+    // Route the next key press to the callback (or stop doing so with null)
+    onCaptureKey: (callback: ((key: string) => void) | null) => void;
+    onClose: () => void;
+}
+
+const PAD_HINTS: Record<InputAction, string> = {
+    left: 'D-PAD / STICK ←',
+    right: 'D-PAD / STICK →',
+    jump: 'A / ↑',
+    roll: 'B / ↓',
+    pause: 'START',
+    autopilot: 'Y',
+    mute: 'SELECT'
+};
+
+export default function ControlsPanel({ bindings, gamepadConnected, onChange, onCaptureKey, onClose }: ControlsPanelProps) {
+    const [listening, setListening] = useState<{ action: InputAction; slot: number } | null>(null);
+
+    useEffect(() => {
+        if (!listening) return;
+        onCaptureKey((key) => {
+            setListening(null);
+            if (key === 'Escape') return;
+            const clear = key === 'Backspace' || key === 'Delete';
+            onChange(rebind(bindings, listening.action, listening.slot, clear ? null : key));
+        });
+        return () => onCaptureKey(null);
+    }, [listening, bindings]);
+
+    const slotClass = (active: boolean, bound: boolean) =>
+        `w-28 px-3 py-1 rounded border text-xs font-bold tracking-widest transition-colors ${active ? 'border-yellow-400 text-yellow-300 animate-pulse' : bound ? 'border-cyan-500/60 text-cyan-300 hover:border-cyan-300' : 'border-gray-700 text-gray-600 hover:text-gray-300'}`;
+
+    return (
+        <div role="dialog" aria-modal="true" className="absolute inset-0 flex flex-col items-center justify-center bg-black/90 backdrop-blur-sm z-30 font-mono">
+            <h2 className="text-5xl font-black text-white mb-2 neon-text tracking-widest italic">CONTROLS</h2>
+            <p className="text-gray-500 text-xs tracking-widest mb-6">
+                {listening ? 'PRESS A KEY — ESC CANCELS, BACKSPACE CLEARS' : 'CLICK A SLOT TO REBIND'}
+            </p>
+
+            <table className="text-sm text-gray-300">
+                <thead>
+                    <tr className="text-cyan-400 text-xs tracking-widest border-b border-white/10">
+                        <th className="text-left py-2 pr-8">ACTION</th>
+                        <th colSpan={BINDING_SLOTS} className="text-left">KEYS</th>
+                        <th className={`text-left pl-6 ${gamepadConnected ? 'text-green-400' : ''}`}>GAMEPAD{gamepadConnected ? ' ●' : ''}</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {INPUT_ACTIONS.map(action => (
+                        <tr key={action} className="border-b border-white/5">
+                            <td className="py-2 pr-8 tracking-widest text-gray-400">{ACTION_LABELS[action]}</td>
+                            {Array.from({ length: BINDING_SLOTS }, (_, slot) => {
+                                const key = bindings[action][slot];
+                                const active = listening?.action === action && listening.slot === slot;
+                                return (
+                                    <td key={slot} className="pr-2">
+                                        <button onClick={() => setListening({ action, slot })} className={slotClass(active, key !== undefined)}>
+                                            {active ? '...' : key !== undefined ? keyLabel(key) : '—'}
+                                        </button>
+                                    </td>
+                                );
+                            })}
+                            <td className="pl-6 text-xs text-gray-500 tracking-widest">{PAD_HINTS[action]}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            <div className="mt-8 flex gap-4">
+                <button
+                    onClick={() => { setListening(null); onChange(DEFAULT_BINDINGS); }}
+                    className="px-6 py-2 border border-gray-500 text-gray-300 font-bold text-sm tracking-widest rounded-full hover:border-white hover:text-white transition-colors"
+                >
+                    RESET DEFAULTS
+                </button>
+                <button
+                    onClick={onClose}
+                    className="px-8 py-2 bg-white text-black font-bold tracking-widest rounded-full hover:bg-cyan-400 transition-colors"
+                >
+                    CLOSE
+                </button>
+            </div>
+        </div>
+    );
+}
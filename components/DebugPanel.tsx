@@ -0,0 +1,45 @@
+import React from 'react';
+import { RenderStats } from '../types';
+
+interface DebugPanelProps {
+    stats: RenderStats;
+}
+
+// F3 overlay: object pool occupancy and GPU resource counts, for spotting leaks in long soak runs
+export default function DebugPanel({ stats }: DebugPanelProps) {
+    return (
+        <div className="absolute bottom-4 left-4 z-40 bg-black/80 border border-green-500/40 rounded p-3 font-mono text-[10px] text-green-300 pointer-events-none">
+            <div className="flex gap-4 mb-1 text-green-400 font-bold tracking-widest">
+                <span>QUALITY {stats.quality.toUpperCase()}</span>
+                <span>{(stats.frameTime * 1000).toFixed(1)}MS</span>
+            </div>
+            <div className="flex gap-4 mb-2 text-green-400 font-bold tracking-widest">
+                <span>GEO {stats.geometries}</span>
+                <span>TEX {stats.textures}</span>
+                <span>CALLS {stats.drawCalls}</span>
+            </div>
+            <table>
+                <thead>
+                    <tr className="text-green-500">
+                        <th className="text-left pr-3">POOL</th>
+                        <th className="text-right pr-2">USE</th>
+                        <th className="text-right pr-2">FREE</th>
+                        <th className="text-right pr-2">PEAK</th>
+                        <th className="text-right">BUILT</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {stats.pools.map(p => (
+                        <tr key={p.name}>
+                            <td className="pr-3">{p.name}</td>
+                            <td className="text-right pr-2">{p.inUse}</td>
+                            <td className="text-right pr-2">{p.free}</td>
+                            <td className="text-right pr-2">{p.peak}</td>
+                            <td className="text-right">{p.created}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { Leaderboard, LeaderboardEntry } from '../Leaderboard';
+import { formatSeed } from '../Random';
+
+interface LeaderboardViewProps {
+    board: Leaderboard;
+    onClose: () => void;
+}
+
+export default function LeaderboardView({ board, onClose }: LeaderboardViewProps) {
+    const [tab, setTab] = useState<'human' | 'assisted'>('human');
+    const entries: LeaderboardEntry[] = tab === 'human' ? board.human : board.assisted;
+
+    const tabClass = (t: 'human' | 'assisted') =>
+        `px-4 py-1 rounded-full border text-sm font-bold tracking-widest transition-colors ${tab === t ? 'border-cyan-400 text-cyan-300 bg-cyan-500/10' : 'border-gray-700 text-gray-500 hover:text-gray-300'}`;
+
+    return (
+        <div role="dialog" aria-modal="true" className="absolute inset-0 flex flex-col items-center justify-center bg-black/90 backdrop-blur-sm z-30 font-mono">
+            <h2 className="text-5xl font-black text-white mb-6 neon-text tracking-widest italic">LEADERBOARD</h2>
+
+            <div className="flex gap-3 mb-6">
+                <button onClick={() => setTab('human')} className={tabClass('human')}>HUMAN</button>
+                <button onClick={() => setTab('assisted')} className={tabClass('assisted')}>ASSISTED</button>
+            </div>
+
+            <div className="w-full max-w-3xl px-6">
+                {entries.length === 0 ? (
+                    <div className="text-center text-gray-500 py-12 tracking-widest">NO RUNS RECORDED</div>
+                ) : (
+                    <table className="w-full text-sm text-gray-300">
+                        <thead>
+                            <tr className="text-cyan-400 text-xs tracking-widest border-b border-white/10">
+                                <th className="text-left py-2">#</th>
+                                <th className="text-left">NAME</th>
+                                <th className="text-right">SCORE</th>
+                                <th className="text-right">DIST</th>
+                                <th className="text-right">COINS</th>
+                                <th className="text-right">MAX SPD</th>
+                                <th className="text-right">DATE</th>
+                                <th className="text-right">SEED</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {entries.map((e, i) => (
+                                <tr key={`${e.date}-${i}`} className={`border-b border-white/5 ${i === 0 ? 'text-yellow-300' : ''}`}>
+                                    <td className="py-2">{i + 1}</td>
+                                    <td className="font-bold text-white">{e.name}</td>
+                                    <td className="text-right font-bold">{e.score}</td>
+                                    <td className="text-right">{e.distance}m</td>
+                                    <td className="text-right">{e.coins}</td>
+                                    <td className="text-right">{e.maxSpeed}</td>
+                                    <td className="text-right text-gray-500">{new Date(e.date).toLocaleDateString()}</td>
+                                    <td className="text-right text-gray-500">{formatSeed(e.seed)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            <button
+                onClick={onClose}
+                className="mt-8 px-8 py-2 border border-gray-500 text-gray-300 font-bold rounded-full hover:border-white hover:text-white transition-colors tracking-widest"
+            >
+                BACK
+            </button>
+        </div>
+    );
+}
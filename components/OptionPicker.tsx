@@ -0,0 +1,25 @@
+import React from 'react';
+
+interface OptionPickerProps<T extends string> {
+    label: string;
+    options: T[];
+    labels: Record<T, string>;
+    value: T;
+    onChange: (value: T) => void;
+    title?: (value: T) => string;
+}
+
+// Row of pill buttons for a small fixed set of choices (graphics quality, difficulty)
+export default function OptionPicker<T extends string>({ label, options, labels, value, onChange, title }: OptionPickerProps<T>) {
+    const optionClass = (o: T) =>
+        `px-3 py-1 rounded-full border text-xs font-bold tracking-widest transition-colors ${value === o ? 'border-cyan-400 text-cyan-300 bg-cyan-500/10' : 'border-gray-700 text-gray-500 hover:text-gray-300'}`;
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 font-mono">
+            <span className="text-gray-500 text-xs tracking-widest mr-1">{label}</span>
+            {options.map(o => (
+                <button key={o} onClick={() => onChange(o)} title={title?.(o)} className={optionClass(o)}>{labels[o]}</button>
+            ))}
+        </div>
+    );
+}
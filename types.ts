@@ -1,18 +1,37 @@
-import * as THREE from 'three';
-
 export enum GameState {
     MENU = 'MENU',
     PLAYING = 'PLAYING',
-    GAME_OVER = 'GAME_OVER'
+    PAUSED = 'PAUSED',
+    GAME_OVER = 'GAME_OVER',
+    EDITOR = 'EDITOR'
+}
+
+// How the editor plays a course: fly-through with collisions off, driven by the player, or by the autopilot
+export type CourseRunMode = 'preview' | 'play' | 'autopilot';
+
+export interface CourseResult {
+    mode: CourseRunMode;
+    cleared: boolean;
+    distance: number;
 }
 
 export enum CollisionType {
     SOLID = 'solid',
     JUMP = 'jump',
     DUCK = 'duck',
-    COIN = 'coin'
+    COIN = 'coin',
+    POWERUP = 'powerup'
+}
+
+export enum PowerUpType {
+    MAGNET = 'magnet',
+    SHIELD = 'shield',
+    MULTIPLIER = 'multiplier',
+    SLOW_TIME = 'slow_time'
 }
 
+// Rates are per second (speeds in units/s, accelerations in units/s²) so the
+// simulation is independent of the display's refresh rate.
 export interface GameConfig {
     laneWidth: number;
     startSpeed: number;
@@ -20,23 +39,181 @@ export interface GameConfig {
     speedIncrement: number;
     jumpForce: number;
     gravity: number;
+    rollDuration: number; // seconds
+    simulationRate: number; // fixed simulation ticks per second
     visibilityRange: number;
     fogDensity: number;
+    obstacleDensity: number; // chance each non-safe lane of a row gets an obstacle
+    minGapBase: number; // spacing between rows is minGapBase + speed * minGapSpeedFactor
+    minGapSpeedFactor: number;
+    obstacleMix: ObstacleMix;
+    chunkChance: number; // chance a procedural row is replaced by the start of an authored chunk
+    districtLength: number; // metres between city districts, which shift the obstacle mix
+    inputBuffer: number; // seconds a jump pressed mid-air (or a roll pressed mid-roll) is held and fired on landing / when the roll ends
+    fastFallSpeed: number; // downward speed of a roll pressed mid-air, which lands straight into a roll; 0 disables
+    rollGrace: number; // seconds after a roll ends that the player still passes under DUCK drones
+}
+
+// Relative weights of the obstacle types; they don't need to sum to 1
+export interface ObstacleMix {
+    jump: number;
+    duck: number;
+    solid: number;
 }
 
 export interface PlayerState {
-    lane: number;
+    lane: number; // Target lane (-1, 0, 1)
+    x: number;
+    y: number;
     isJumping: boolean;
     isRolling: boolean;
     velocityY: number;
+    rollTimer: number; // seconds of roll remaining
+    fastFalling: boolean;
+    jumpBuffer: number; // seconds a queued jump stays valid
+    rollBuffer: number;
+    rollGrace: number; // seconds of post-roll grace remaining
+}
+
+// Plain-data obstacle/pickup owned by the simulation. Z is relative to the player (approaching = negative).
+export interface ObstacleState {
+    id: number;
+    lane: number;
+    x: number;
+    z: number;
+    type: CollisionType;
+    active: boolean;
+    powerUp?: PowerUpType; // Set when type is POWERUP
+    y?: number; // Floating coins (chunk arcs) are only collected near this height
+}
+
+export interface ActivePowerUp {
+    type: PowerUpType;
+    remaining: number; // seconds (Infinity for the shield, which lasts until hit)
+    duration: number;
+    level: number; // Stack count (multiplier only goes above 1)
+}
+
+export type NearMissKind = 'solid' | 'jump' | 'duck';
+
+// Discrete inputs a run can receive; recorded per tick for replays
+export type InputAction = 'left' | 'right' | 'jump' | 'roll' | 'autopilotOn' | 'autopilotOff' | `bot:${AutopilotId}`;
+
+export type SimulationEvent =
+    | { type: 'coin'; obstacle: ObstacleState }
+    | { type: 'powerup'; obstacle: ObstacleState; powerUp: PowerUpType }
+    | { type: 'powerupExpired'; powerUp: PowerUpType }
+    | { type: 'shieldBreak'; obstacle: ObstacleState }
+    | { type: 'nearMiss'; obstacle: ObstacleState; kind: NearMissKind; combo: number; points: number }
+    | { type: 'comboLost' }
+    | { type: 'jump' }
+    | { type: 'land' }
+    | { type: 'roll' }
+    | { type: 'fastFall' }
+    | { type: 'laneChange'; direction: number }
+    | { type: 'obstaclePass'; obstacle: ObstacleState; dx: number } // an obstacle went by the player; dx is its offset
+    | { type: 'crash'; obstacle: ObstacleState }
+    | { type: 'courseComplete' };
+
+// What the view reports to subscribers (audio): everything the simulation emits plus run lifecycle and a per-frame update
+export type EngineEvent =
+    | SimulationEvent
+    | { type: 'runStart' }
+    | { type: 'pause' }
+    | { type: 'resume' }
+    | { type: 'stop' }
+    | { type: 'gameOver'; cleared: boolean }
+    | { type: 'frame'; speed: number; maxSpeed: number; dt: number };
+
+export type AutopilotId = 'heuristic' | 'reflex' | 'planner' | 'policy';
+
+// A move sequence a planning bot considered, first move first
+export interface AIPlan {
+    moves: string[];
+    value: number;
+    safe: boolean; // clears everything it can see within its horizon
 }
 
 export interface AIState {
     enabled: boolean;
+    bot: AutopilotId;
     currentLane: number;
     targetLane: number;
     action: 'RUN' | 'JUMP' | 'DUCK' | 'DODGE' | 'SCANNING';
     confidence: number; // 0-100
     nearestThreatDist: number;
+    visionRange: number;
     laneScores: number[];
-}
\ No newline at end of file
+    status: string; // the active bot's explanation of what it's doing
+    plan?: AIPlan; // bots that search ahead report what they chose and what else they weighed
+    alternatives?: AIPlan[];
+}
+
+// Summary of a finished (or in-progress) run
+export interface RunStats {
+    seed: number;
+    score: number;
+    distance: number;
+    coins: number;
+    maxSpeed: number; // units/s
+    autopilotUsed: boolean; // Autopilot was engaged at any point
+    slowed: boolean; // Played with the accessibility speed scale below 1
+    ticks: number;
+    // Score breakdown
+    distanceScore: number;
+    coinScore: number;
+    trickScore: number;
+    nearMisses: number;
+    bestCombo: number;
+}
+
+export interface GhostStatus {
+    delta: number; // Distance ahead (+) or behind (-) the ghost
+    ghostDistance: number;
+    finished: boolean; // Ghost's run already ended (crash point passed in time)
+}
+
+// Per-frame HUD data beyond score and AI debug
+export interface ComboStatus {
+    level: number; // 0 = no combo
+    decay: number; // 0-1, time left before the combo drops a level
+}
+
+export interface HUDPopup {
+    id: number;
+    text: string;
+    kind: NearMissKind | 'combo';
+    age: number; // seconds
+}
+
+export interface DistrictStatus {
+    label: string;
+    age: number; // seconds since the player entered it
+}
+
+export interface HUDState {
+    distance: number;
+    district: DistrictStatus | null;
+    ghost: GhostStatus | null;
+    powerUps: ActivePowerUp[];
+    combo: ComboStatus;
+    popups: HUDPopup[];
+}
+
+export interface PoolStats {
+    name: string;
+    created: number; // objects ever built by the pool
+    inUse: number;
+    free: number;
+    peak: number; // most objects in use at once
+}
+
+// Debug view: pool occupancy plus what the renderer is holding on the GPU
+export interface RenderStats {
+    quality: string;
+    frameTime: number; // rolling average, seconds
+    pools: PoolStats[];
+    geometries: number;
+    textures: number;
+    drawCalls: number;
+}